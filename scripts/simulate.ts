@@ -0,0 +1,90 @@
+/**
+ * Bot-vs-Bot Simulation CLI
+ *
+ * Plays many headless matches and prints balance statistics.
+ *
+ *   npm run simulate -- --games 5000 --rules v1.1 --p1 hard --p2 easy --json
+ *   npm run simulate -- --games 50 --p1 expert --iterations 64
+ */
+
+import { parseArgs } from 'node:util';
+import { createAgent, createMonteCarloAgent, createRandomAgent, createSeed, DIFFICULTIES, isDifficulty, isPersonalityId, isRuleSetId, PERSONALITIES, RULE_SETS, runSimulation } from '../src/game';
+import type { Agent, SimulationSummary } from '../src/game';
+
+// Difficulty tiers, play styles (at Normal difficulty) and the random baseline
+const AGENT_NAMES = [...Object.keys(DIFFICULTIES), ...Object.keys(PERSONALITIES).filter(id => id !== 'balanced'), 'random'];
+
+function createNamedAgent(name: string, seed: number, iterations?: number): Agent | undefined {
+  if (name === 'random') return createRandomAgent(seed);
+  if (name === 'expert' && iterations !== undefined) return createMonteCarloAgent({ seed, iterations });
+  if (isPersonalityId(name)) return createAgent('normal', seed, name);
+  return isDifficulty(name) ? createAgent(name, seed) : undefined;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '1000' },
+    seed: { type: 'string' },
+    rules: { type: 'string', default: 'v1.3' },
+    p1: { type: 'string', default: 'normal' },
+    p2: { type: 'string', default: 'normal' },
+    iterations: { type: 'string' }, // Monte Carlo iterations for expert agents
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const games = Number(values.games);
+if (!Number.isInteger(games) || games <= 0) fail(`--games must be a positive integer, got "${values.games}"`);
+const seed = values.seed === undefined ? createSeed() : Number(values.seed);
+if (!Number.isInteger(seed)) fail(`--seed must be an integer, got "${values.seed}"`);
+if (!isRuleSetId(values.rules)) fail(`Unknown rule set "${values.rules}" (expected one of ${Object.keys(RULE_SETS).join(', ')})`);
+const iterations = values.iterations === undefined ? undefined : Number(values.iterations);
+if (iterations !== undefined && (!Number.isInteger(iterations) || iterations <= 0)) fail(`--iterations must be a positive integer, got "${values.iterations}"`);
+const makeAgent = (name: string, agentSeed: number) =>
+  createNamedAgent(name, agentSeed, iterations) ?? fail(`Unknown agent "${name}" (expected one of ${AGENT_NAMES.join(', ')})`);
+
+const summary = runSimulation(
+  { 1: matchSeed => makeAgent(values.p1, matchSeed ^ 0x1111), 2: matchSeed => makeAgent(values.p2, matchSeed ^ 0x2222) },
+  { games, seed, rules: RULE_SETS[values.rules] }
+);
+
+if (values.json) {
+  console.log(JSON.stringify({ seed, ...summary }, null, 2));
+} else {
+  printTables(summary);
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function printTables(s: SimulationSummary) {
+  console.log(`${s.games} games · rules ${s.rules} · P1 ${s.agents[1]} vs P2 ${s.agents[2]} · seed ${seed}`);
+  if (s.stalled > 0) console.log(`${s.stalled} games stalled and are left out of the statistics (seeds ${s.stalledSeeds.join(', ')})`);
+
+  console.table({
+    'Player 1': { wins: s.seatWins[1].count, winRate: percent(s.seatWins[1].rate) },
+    'Player 2': { wins: s.seatWins[2].count, winRate: percent(s.seatWins[2].rate) },
+  });
+
+  console.table(Object.fromEntries(Object.entries(s.suitWins).map(([suit, stat]) =>
+    [suit, { games: stat.games, wins: stat.wins, winRate: percent(stat.winRate) }]
+  )));
+
+  console.table(Object.fromEntries(Object.entries(s.pokerHands).map(([hand, stat]) =>
+    [hand, { count: stat.count, perGame: stat.perGame.toFixed(2), perLaneSide: percent(stat.perLaneSide) }]
+  )));
+
+  console.table({
+    'Avg rounds': s.averageRounds.toFixed(2),
+    'Avg turns': s.averageTurns.toFixed(1),
+    'Discards / game': s.discards.perGame.toFixed(2),
+    'Discard share of cards played': percent(s.discards.shareOfCardsPlayed),
+    'Sudden death': `${s.suddenDeath.count} (${percent(s.suddenDeath.rate)})`,
+  });
+}
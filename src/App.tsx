@@ -1,7 +1,54 @@
+import { useCallback, useState } from 'react'
 import { GameBoard } from './components/GameBoard'
+import { OnlineLobby } from './components/OnlineLobby'
+import type { SavedGame } from './game'
+import type { MatchRecord } from './game/replay'
+import type { GameSession } from './net'
+
+type OnlineMode =
+  | { kind: 'offline' }
+  | { kind: 'lobby' }
+  | { kind: 'playing'; session: GameSession }
 
 function App() {
-  return <GameBoard />
+  const [replay, setReplay] = useState<MatchRecord | undefined>(undefined)
+  const [resume, setResume] = useState<SavedGame | undefined>(undefined)
+  const [online, setOnline] = useState<OnlineMode>({ kind: 'offline' })
+
+  const handleOnlineReady = useCallback((session: GameSession) => {
+    setOnline({ kind: 'playing', session })
+  }, [])
+
+  const handleLeaveOnline = () => {
+    if (online.kind === 'playing') online.session.close()
+    setOnline({ kind: 'offline' })
+  }
+
+  // The board remounts after the lobby, so it must not pick up a save resumed earlier
+  const handlePlayOnline = () => {
+    setResume(undefined)
+    setOnline({ kind: 'lobby' })
+  }
+
+  if (online.kind === 'lobby') {
+    return <OnlineLobby onReady={handleOnlineReady} onCancel={() => setOnline({ kind: 'offline' })} />
+  }
+
+  if (online.kind === 'playing') {
+    return <GameBoard key={online.session.roomCode} online={online.session} onLeaveOnline={handleLeaveOnline} />
+  }
+
+  return (
+    <GameBoard
+      key={resume?.savedAt ?? 'new'}
+      resume={resume}
+      onResume={setResume}
+      replay={replay}
+      onWatchReplay={setReplay}
+      onExitReplay={() => setReplay(undefined)}
+      onPlayOnline={handlePlayOnline}
+    />
+  )
 }
 
 export default App
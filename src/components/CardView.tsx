@@ -9,6 +9,7 @@ interface CardViewProps {
   card: Card
   faceDown?: boolean
   selected?: boolean
+  highlighted?: boolean  // Recommended by the hint
   onClick?: () => void
   disabled?: boolean
   small?: boolean
@@ -92,6 +93,7 @@ export function CardView({
   card, 
   faceDown = false, 
   selected = false, 
+  highlighted = false,
   onClick, 
   disabled = false,
   small = false,
@@ -106,6 +108,7 @@ export function CardView({
     small ? 'card-small' : '',
     faceDown ? 'card-back' : 'card-face',
     selected ? 'card-selected' : '',
+    highlighted ? 'card-hinted' : '',
     disabled ? 'card-disabled' : '',
     !faceDown && isActive ? 'card-active' : '',
     !faceDown && !isActive ? 'card-inactive' : '',
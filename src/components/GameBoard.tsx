@@ -1,17 +1,24 @@
 /**
  * GameBoard - Mobile-first game interface with custom art
  * 
- * Layout:
- * - Top: AI facedown hand + AI avatar/HP
+ * Layout (relative to the local seat):
+ * - Top: Opponent facedown hand + opponent avatar/HP
  * - Middle: Draw piles (left) | 3 Lanes | Discard (right)
  * - Bottom: Player avatar/HP + Player hand
  */
 
-import { useReducer, useEffect, useState, useCallback, useRef } from 'react'
-import { gameReducer, canPlayCardToLane, canEndTurn, executeAITurn } from '../game'
+import { useReducer, useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import { gameReducer, checkedGameReducer, applyStagedPlays, canPlayCardToLane, canEndTurn, createAgent, describeRejection, createSeed, DEFAULT_TIME_BUDGET_MS, DIFFICULTIES, eventsOfType, isDifficulty, isPersonalityId, moveToAction, PERSONALITIES, getAvailableSuits, getPlayerView, getRuleSet, getSeatView, isRuleSetId, RULE_SETS, suitAction, validateAction, validateTakeBack, describeHintMove, describeJokerAssignment, describePokerHand, getHint, parseSave, previewLanePlay, SaveError, serializeSave, createSave } from '../game'
+import type { Difficulty, GameAction, GameEvent, Hint, LanePreview, PersonalityId, PlayerView, SavedGame, TurnPlay } from '../game'
 import { initializeNewGame } from '../game/state'
-import type { LaneId, Lane, StandardSuit } from '../game/types'
+import { createMatchRecord, parseMatch, recordAction, ReplayError, serializeMatch } from '../game/replay'
+import type { MatchRecord } from '../game/replay'
+import type { CurrentPlayer, LaneId, Lane, StandardSuit } from '../game/types'
+import type { GameSession } from '../net'
 import { CardView } from './CardView'
+import { useSessionSnapshot } from './OnlineLobby'
+import { ReplayControls, useReplayPlayer } from './ReplayViewer'
 
 // Suit to folder name mapping
 const SUIT_FOLDER_MAP: Record<StandardSuit, string> = {
@@ -51,24 +58,162 @@ function getBackgroundImage(fieldControlSuit: StandardSuit | null): string {
 
 const DISCARD_BACK = '/assets/cards/Draw and Discard Cards/Card Back - Discard.png'
 
-export function GameBoard() {
-  const [state, dispatch] = useReducer(gameReducer, undefined, initializeNewGame)
+// Dev builds check the state invariants after every dispatch
+const liveReducer = import.meta.env.DEV ? checkedGameReducer : gameReducer
+
+// The seat the AI plays in local games against the computer
+const AI_SEAT: CurrentPlayer = 2
+
+type LaneResolvedEvent = Extract<GameEvent, { type: 'LaneResolved' }>
+
+// How long each lane resolution breakdown stays on screen
+const RESOLUTION_OVERLAY_MS = 2600
+
+const LANE_NAMES: Record<LaneId, string> = { left: 'Left', middle: 'Middle', right: 'Right' }
+
+// Offer a recorded match as a JSON file download
+function downloadReplay(record: MatchRecord) {
+  const blob = new Blob([serializeMatch(record)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `war-lanes-replay-${record.seed}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const SAVE_KEY = 'war-lanes-save'
+
+// The autosaved match, if it can be resumed; saves that fail to load are discarded
+function readSavedGame(): { save: SavedGame | null; error: string | null } {
+  const json = localStorage.getItem(SAVE_KEY)
+  if (!json) return { save: null, error: null }
+  try {
+    const save = parseSave(json)
+    if (save.state.phase !== 'Finished') return { save, error: null }
+    localStorage.removeItem(SAVE_KEY)
+    return { save: null, error: null }
+  } catch (error) {
+    localStorage.removeItem(SAVE_KEY)
+    return { save: null, error: error instanceof SaveError ? `Saved game discarded: ${error.message}` : 'Saved game discarded' }
+  }
+}
+
+interface GameBoardProps {
+  replay?: MatchRecord  // When set, the board shows this recorded match read-only
+  onWatchReplay?: (record: MatchRecord) => void
+  onExitReplay?: () => void
+  online?: GameSession  // When set, the board mirrors an online session instead of the local reducer
+  onLeaveOnline?: () => void
+  onPlayOnline?: () => void
+  resume?: SavedGame  // When set, the board continues this saved match
+  onResume?: (save: SavedGame) => void
+}
+
+export function GameBoard({ replay, onWatchReplay, onExitReplay, online, onLeaveOnline, onPlayOnline, resume, onResume }: GameBoardProps = {}) {
+  const [liveState, liveDispatch] = useReducer(liveReducer, undefined, () => resume?.state ?? initializeNewGame())
+  const recordRef = useRef<MatchRecord>(resume?.record ?? createMatchRecord(liveState.rng.seed, liveState.rules))
+  const replayPlayer = useReplayPlayer(replay)
+  const onlineSnapshot = useSessionSnapshot(online)
+  const isReplay = replayPlayer !== null
+  const isOnline = online !== undefined
+  // Only the local reducer or the online host drives automatic transitions
+  const isAuthority = !isReplay && (!online || online.role === 'host')
+  const [localOpponent, setLocalOpponent] = useState<'ai' | 'hotseat'>(resume && !resume.opponent ? 'hotseat' : 'ai')
+  const isHotSeat = !isOnline && !isReplay && localOpponent === 'hotseat'
+  // In hot-seat play, the seat currently holding the device
+  const [deviceSeat, setDeviceSeat] = useState<CurrentPlayer>(1)
+  const localSeat: CurrentPlayer = online?.seat
+    ?? (isHotSeat && liveState.phase === 'SuitSelection' ? (liveState.player1Suit === null ? 1 : 2) : null)
+    ?? (isHotSeat ? deviceSeat : 1)
+  const awaitingHandoff = isHotSeat && liveState.phase === 'Main' && liveState.currentPlayer !== deviceSeat
+
+  // The board only ever renders a seat's view; replays reveal both hands
+  const replayState = replayPlayer?.state
+  const onlineView = onlineSnapshot?.view
+  const view: PlayerView = useMemo(() => {
+    if (replayState) return getPlayerView(replayState, localSeat, { revealOpponentHand: true })
+    if (onlineView) return onlineView
+    return getPlayerView(liveState, localSeat)
+  }, [replayState, onlineView, liveState, localSeat])
+  // The local seat's plans for this turn; nothing is sent until END TURN commits them
+  const [staged, setStaged] = useState<TurnPlay[]>([])
+  // The view with the staged plays laid out, which the hand, lanes and previews show
+  const board: PlayerView = useMemo(
+    () => staged.length === 0 ? view : applyStagedPlays(view, localSeat, staged),
+    [view, localSeat, staged]
+  )
+  const opponentSeat: CurrentPlayer = localSeat === 1 ? 2 : 1
+  // An AI opponent's play style comes from the event log, so replays show it too
+  const opponentProfile = eventsOfType(view.events, 'AgentSeated').find(e => e.player === opponentSeat)
+  const opponentStyle = opponentProfile && isPersonalityId(opponentProfile.personality) && opponentProfile.personality !== 'balanced'
+    ? PERSONALITIES[opponentProfile.personality].name
+    : null
+  const opponentName = isOnline ? 'Opponent' : opponentStyle ? `${opponentStyle} AI` : 'AI'
+
+  // Seat-relative naming: "You" for the local seat, otherwise the opponent's name
+  const seatName = (seat: CurrentPlayer) => isHotSeat ? `Player ${seat}` : seat === localSeat ? 'You' : opponentName
+  const withVerb = (seat: CurrentPlayer, verb: string) => `${seatName(seat)} ${seatName(seat) === 'You' ? verb : `${verb}s`}`
+  const me = getSeatView(board, localSeat)
+  const opponent = getSeatView(view, opponentSeat)
+  const myHand = me.hand ?? []
+  const mySuit = localSeat === 1 ? view.player1Suit : view.player2Suit
+  const opponentSuit = localSeat === 1 ? view.player2Suit : view.player1Suit
+  // Without suit effects every card is shown in full color
+  const myActiveSuit = view.rules.suitEffects ? mySuit : null
+  const opponentActiveSuit = view.rules.suitEffects ? opponentSuit : null
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null)
-  const [isAIThinking, setIsAIThinking] = useState(false)
-  const aiExecutingRef = useRef(false)
+  const [rejection, setRejection] = useState<string | null>(null)
+  // A hint only holds for the board it was computed on
+  const [hintState, setHintState] = useState<{ hint: Hint; at: PlayerView } | null>(null)
+  const [difficulty, setDifficulty] = useState<Difficulty>(resume?.opponent?.difficulty ?? 'normal')
+  const [personality, setPersonality] = useState<PersonalityId>(resume?.opponent?.personality ?? 'balanced')
+  // A fresh agent per choice; its random choices are independent of the game seed,
+  // and its search is cut short rather than stall the board on a slow device
+  const agent = useMemo(() => createAgent(difficulty, createSeed(), personality, DEFAULT_TIME_BUDGET_MS), [difficulty, personality])
   const [flipAnimationStage, setFlipAnimationStage] = useState<'cards' | 'result' | 'damage'>('cards')
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const [savedGame, setSavedGame] = useState<{ save: SavedGame | null; error: string | null }>({ save: null, error: null })
+  // Lane resolutions waiting to be shown, oldest first
+  const [resolutions, setResolutions] = useState<LaneResolvedEvent[]>([])
+  const seenEventsRef = useRef(view.events.length)
+
+  const isPlayerTurn = view.currentPlayer === localSeat
+  const isPlanning = !isReplay && isPlayerTurn && view.phase === 'Main'
+  const canAct = isPlanning && board.cardsPlayedThisTurn < view.rules.cardsPerTurn
+  const hint = canAct && hintState?.at === board ? hintState.hint : null
+  const commitAction: GameAction = { type: 'COMMIT_TURN', player: localSeat, plays: staged }
+  const commitCheck = validateAction(view, commitAction)
+  const stagedDiscards = (getSeatView(view, localSeat).hand ?? [])
+    .filter(card => staged.some(play => play.laneId === null && play.cardId === card.id))
+  // Only staged plays can be taken back, and only where the rules allow undo;
+  // End Turn commits them and ends the turn
+  const takeBackCheck = validateTakeBack(view, localSeat)
+  const canUndo = isPlanning && staged.length > 0 && takeBackCheck.ok
 
-  const isPlayerTurn = state.currentPlayer === 1
-  const canAct = isPlayerTurn && state.phase === 'Main' && !isAIThinking && state.cardsPlayedThisTurn < 3
+  // Every live action is recorded so the match can be replayed later;
+  // online actions go to the session, which forwards them to the host
+  const dispatch = useCallback((action: GameAction) => {
+    if (online) {
+      online.dispatch(action)
+      return
+    }
+    recordRef.current = recordAction(recordRef.current, action)
+    liveDispatch(action)
+  }, [online])
 
-  // Initialize game
+  // Plans are dropped whenever the game moves on or the device changes hands
   useEffect(() => {
-    dispatch({ type: 'START_NEW_GAME' })
-  }, [])
+    setStaged([])
+  }, [view.events.length, localSeat])
 
   // Handle flip animation stages
   useEffect(() => {
-    if (state.phase === 'InitialFlipResult') {
+    if (isReplay) {
+      setFlipAnimationStage('damage')
+      return
+    }
+    if (view.phase === 'InitialFlipResult') {
       setFlipAnimationStage('cards')
       
       // Stage 1: Show cards (1.5s)
@@ -83,7 +228,7 @@ export function GameBoard() {
 
       // Stage 3: Continue to main phase (1s more)
       const timer3 = setTimeout(() => {
-        dispatch({ type: 'CONTINUE_FROM_FLIP' })
+        if (isAuthority) dispatch({ type: 'CONTINUE_FROM_FLIP' })
       }, 4000)
 
       return () => {
@@ -92,107 +237,239 @@ export function GameBoard() {
         clearTimeout(timer3)
       }
     }
-  }, [state.phase])
+  }, [view.phase, isReplay, isAuthority, dispatch])
 
-  // AI Turn Handler
-  const executeAI = useCallback(async () => {
-    if (aiExecutingRef.current) return
-    if (state.currentPlayer !== 2 || state.phase !== 'Main') return
-    
-    aiExecutingRef.current = true
-    setIsAIThinking(true)
-    
-    await new Promise(r => setTimeout(r, 800))
-    const moves = executeAITurn(state)
-    
-    for (const move of moves) {
-      await new Promise(r => setTimeout(r, 400))
-      if (move.type === 'lane' && move.laneId) {
-        dispatch({ type: 'PLAY_CARD_TO_LANE', cardId: move.cardId, laneId: move.laneId })
-      } else {
-        dispatch({ type: 'DISCARD_CARD', cardId: move.cardId })
-      }
+  // Autosave local matches after every step; a finished match has nothing to resume
+  const isLocalPlay = !isReplay && !isOnline
+  useEffect(() => {
+    if (!isLocalPlay || liveState.phase === 'SuitSelection') return
+    if (liveState.phase === 'Finished') {
+      localStorage.removeItem(SAVE_KEY)
+      return
     }
-    
-    await new Promise(r => setTimeout(r, 300))
-    dispatch({ type: 'END_TURN' })
-    setIsAIThinking(false)
-    aiExecutingRef.current = false
-  }, [state])
+    const opponent = localOpponent === 'ai' ? { difficulty, personality } : null
+    localStorage.setItem(SAVE_KEY, serializeSave(createSave(liveState, recordRef.current, opponent)))
+  }, [isLocalPlay, liveState, localOpponent, difficulty, personality])
 
-  // Trigger AI turn
+  // Offer the autosave whenever a new match is about to start
   useEffect(() => {
-    if (state.phase === 'Main' && state.currentPlayer === 2 && !isAIThinking && !aiExecutingRef.current) {
-      executeAI()
-    }
-  }, [state.phase, state.currentPlayer, isAIThinking, executeAI])
+    if (isLocalPlay && liveState.phase === 'SuitSelection') setSavedGame(readSavedGame())
+  }, [isLocalPlay, liveState.phase])
+
+  // Queue a breakdown for every lane that resolved since the last render; a
+  // shorter log means a new game or a replay rewind, so nothing is shown
+  useEffect(() => {
+    const seen = seenEventsRef.current
+    seenEventsRef.current = view.events.length
+    if (view.events.length <= seen) return
+    const resolved = eventsOfType(view.events.slice(seen), 'LaneResolved')
+    if (resolved.length === 0) return
+    // Replays can jump many turns at once; only show the latest step there
+    setResolutions(prev => isReplay ? resolved : [...prev, ...resolved])
+  }, [view.events, isReplay])
+
+  const currentResolution = resolutions[0] ?? null
+  const dismissResolution = useCallback(() => setResolutions(prev => prev.slice(1)), [])
+  useEffect(() => {
+    if (!currentResolution) return
+    const timer = setTimeout(dismissResolution, RESOLUTION_OVERLAY_MS)
+    return () => clearTimeout(timer)
+  }, [currentResolution, dismissResolution])
+
+  // AI turn: one move per tick, each chosen from the latest state
+  const isAITurn = !isReplay && !isOnline && !isHotSeat && liveState.phase === 'Main' && liveState.currentPlayer === AI_SEAT
+  useEffect(() => {
+    if (!isAITurn) return
+    const delay = liveState.cardsPlayedThisTurn === 0 ? 800 : 400
+    const timer = setTimeout(() => {
+      if (canEndTurn(liveState, AI_SEAT)) {
+        dispatch({ type: 'END_TURN', player: AI_SEAT })
+        return
+      }
+      const move = agent.chooseMove(getPlayerView(liveState, AI_SEAT))
+      if (move) dispatch(moveToAction(move, AI_SEAT))
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [isAITurn, liveState, agent, dispatch])
 
   // Auto-resolve end of round
   useEffect(() => {
-    if (state.phase === 'EndOfRoundResolving') {
+    if (!isAuthority) return
+    if (view.phase === 'EndOfRoundResolving') {
       setTimeout(() => dispatch({ type: 'RESOLVE_END_OF_ROUND' }), 500)
     }
-  }, [state.phase])
+  }, [view.phase, isAuthority, dispatch])
 
   // Handlers
   const handleSuitSelect = (suit: StandardSuit) => {
-    if (state.phase === 'SuitSelection') {
-      dispatch({ type: 'SELECT_SUIT', suit })
-    }
+    if (isReplay || view.phase !== 'SuitSelection') return
+    const action: GameAction = { type: 'SELECT_SUIT', player: localSeat, suit }
+    dispatch(action)
+    if (!isOnline && !isHotSeat) dispatch(suitAction(agent, getPlayerView(gameReducer(liveState, action), AI_SEAT)))
   }
 
   const handleInitialFlip = () => {
-    if (state.phase === 'InitialFlip') dispatch({ type: 'INITIAL_FLIP_STEP' })
+    if (isAuthority && view.phase === 'InitialFlip') dispatch({ type: 'INITIAL_FLIP_STEP' })
+  }
+
+  // Dispatch a player move, or explain why the rules refuse it
+  const tryDispatch = (action: GameAction): boolean => {
+    const result = validateAction(view, action)
+    if (!result.ok) {
+      setRejection(describeRejection(result.reason))
+      return false
+    }
+    setRejection(null)
+    dispatch(action)
+    return true
   }
 
   const handleCardClick = (cardId: string) => {
     if (!canAct) return
+    setRejection(null)
     setSelectedCardId(prev => prev === cardId ? null : cardId)
   }
 
+  // Add a play to the plan if the rules would allow it after the ones already staged
+  const tryStage = (play: TurnPlay): boolean => {
+    const action: GameAction = play.laneId === null
+      ? { type: 'DISCARD_CARD', player: localSeat, cardId: play.cardId }
+      : { type: 'PLAY_CARD_TO_LANE', player: localSeat, cardId: play.cardId, laneId: play.laneId }
+    const result = validateAction(board, action)
+    if (!result.ok) {
+      setRejection(describeRejection(result.reason))
+      return false
+    }
+    setRejection(null)
+    setStaged(prev => [...prev, play])
+    return true
+  }
+
+  // Take a staged card back into the hand; later plays that relied on it are dropped too
+  const unstage = (cardId: string) => {
+    if (!takeBackCheck.ok) {
+      setRejection(describeRejection(takeBackCheck.reason))
+      return
+    }
+    const kept: TurnPlay[] = []
+    for (const play of staged) {
+      if (play.cardId === cardId) continue
+      const action: GameAction = play.laneId === null
+        ? { type: 'DISCARD_CARD', player: localSeat, cardId: play.cardId }
+        : { type: 'PLAY_CARD_TO_LANE', player: localSeat, cardId: play.cardId, laneId: play.laneId }
+      if (validateAction(applyStagedPlays(view, localSeat, kept), action).ok) kept.push(play)
+    }
+    setStaged(kept)
+    setRejection(null)
+  }
+
   const handleLaneClick = (laneId: LaneId) => {
     if (!selectedCardId || !canAct) return
-    if (!canPlayCardToLane(state, selectedCardId, laneId)) return
-    dispatch({ type: 'PLAY_CARD_TO_LANE', cardId: selectedCardId, laneId })
-    setSelectedCardId(null)
+    if (tryStage({ cardId: selectedCardId, laneId })) setSelectedCardId(null)
   }
 
   const handleDiscard = () => {
     if (!selectedCardId || !canAct) return
-    dispatch({ type: 'DISCARD_CARD', cardId: selectedCardId })
-    setSelectedCardId(null)
+    if (tryStage({ cardId: selectedCardId, laneId: null })) setSelectedCardId(null)
+  }
+
+  const handleHint = () => {
+    if (!canAct) return
+    const next = getHint(board)
+    setRejection(null)
+    setHintState(next && { hint: next, at: board })
   }
 
   const handleEndTurn = () => {
-    if (!canEndTurn(state) || !isPlayerTurn) return
+    if (!isPlanning) return
+    if (tryDispatch(commitAction)) setSelectedCardId(null)
+  }
+
+  const handleUndo = () => {
+    if (!canUndo) return
     setSelectedCardId(null)
-    dispatch({ type: 'END_TURN' })
+    unstage(staged[staged.length - 1].cardId)
   }
 
   const handleSuddenDeath = () => {
-    if (state.phase === 'SuddenDeath') dispatch({ type: 'SUDDEN_DEATH_STEP' })
+    if (isAuthority && view.phase === 'SuddenDeath') dispatch({ type: 'SUDDEN_DEATH_STEP' })
   }
 
   const handleNewGame = () => {
-    dispatch({ type: 'START_NEW_GAME' })
+    if (!isAuthority) return
+    dispatch({ type: 'START_NEW_GAME', seed: createSeed() })
     setSelectedCardId(null)
+    setDeviceSeat(1)
   }
 
+  const handleRulesChange = (id: string) => {
+    if (!isAuthority || !isRuleSetId(id)) return
+    dispatch({ type: 'START_NEW_GAME', seed: createSeed(), rules: getRuleSet(id) })
+  }
+
+  const handleLoadReplay = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !onWatchReplay) return
+    try {
+      onWatchReplay(parseMatch(await file.text()))
+      setReplayError(null)
+    } catch (error) {
+      setReplayError(error instanceof ReplayError ? error.message : 'Could not read replay file')
+    }
+  }
+
+  // e.g. "Round 2 · You 64 HP, AI 40 HP"
+  const describeSave = ({ state, opponent }: SavedGame) => {
+    const names: Record<CurrentPlayer, string> = opponent ? { 1: 'You', 2: 'AI' } : { 1: 'Player 1', 2: 'Player 2' }
+    return `Round ${state.roundNumber} · ${names[1]} ${state.player1.hp} HP, ${names[2]} ${state.player2.hp} HP`
+  }
+
+  const replayBar = replayPlayer && <ReplayControls player={replayPlayer} onExit={onExitReplay} />
+
+  const onlineBar = online && onlineSnapshot && (
+    <div className="online-bar">
+      <span className={`online-status ${onlineSnapshot.status}`}>
+        Room {online.roomCode} · {onlineSnapshot.status}
+      </span>
+      {onlineSnapshot.lastRejection && <span className="online-rejection">{onlineSnapshot.lastRejection}</span>}
+      {onLeaveOnline && <button className="online-leave" onClick={onLeaveOnline}>Leave</button>}
+    </div>
+  )
+
   const isLaneTargetable = (laneId: LaneId) => {
     if (!selectedCardId || !canAct) return false
-    return canPlayCardToLane(state, selectedCardId, laneId)
+    return canPlayCardToLane(board, localSeat, selectedCardId, laneId)
+  }
+
+  // What the selected card would do in a lane if it resolved right after the play
+  const getLanePreview = (laneId: LaneId): LanePreview | null => {
+    if (!selectedCardId || !canAct) return null
+    return previewLanePlay(board, selectedCardId, laneId)
+  }
+
+  const describeOutcome = (preview: LanePreview) => {
+    if (preview.winner === null) return 'Tie'
+    if (preview.winner === localSeat) return `Deal ${preview.damage}`
+    return preview.healing > 0 ? `Heal ${preview.healing}` : `Take ${preview.damage}`
   }
 
+  const isStaged = (cardId: string) => staged.some(play => play.cardId === cardId)
+
   // Get pending resolution info for a lane
   const getPendingInfo = (laneId: LaneId) => {
-    return state.pendingResolutionLanes.find(p => p.laneId === laneId)
+    return view.pendingResolutionLanes.find(p => p.laneId === laneId)
   }
 
   // Lane component
   const LaneView = ({ lane }: { lane: Lane }) => {
     const targetable = isLaneTargetable(lane.id)
+    const preview = targetable ? getLanePreview(lane.id) : null
+    const hinted = hint?.move.laneId === lane.id
     const labels: Record<string, string> = { left: 'Left', middle: 'Mid', right: 'Right' }
     const pendingInfo = getPendingInfo(lane.id)
+    const mySide = localSeat === 1 ? lane.player1 : lane.player2
+    const opponentSide = localSeat === 1 ? lane.player2 : lane.player1
     
     // Determine glow class based on turns until resolution
     const glowClass = pendingInfo 
@@ -203,7 +480,7 @@ export function GameBoard() {
 
     return (
       <div 
-        className={`lane ${targetable ? 'lane-targetable' : ''} ${glowClass}`}
+        className={`lane ${targetable ? 'lane-targetable' : ''} ${hinted ? 'lane-hinted' : ''} ${glowClass}`}
         onClick={() => targetable && handleLaneClick(lane.id)}
       >
         {/* Pending resolution indicator */}
@@ -215,12 +492,12 @@ export function GameBoard() {
 
         {/* Opponent cards - stacked vertically */}
         <div className="lane-cards-stack opponent">
-          {lane.player2.cards.length === 0 ? (
+          {opponentSide.cards.length === 0 ? (
             <div className="lane-empty">—</div>
           ) : (
-            lane.player2.cards.map((card, idx) => (
+            opponentSide.cards.map((card, idx) => (
               <div key={card.id} className="stacked-card" style={{ zIndex: idx }}>
-                <CardView card={card} small ownerSuit={state.player2Suit} />
+                <CardView card={card} small ownerSuit={opponentActiveSuit} />
               </div>
             ))
           )}
@@ -232,14 +509,37 @@ export function GameBoard() {
           {targetable && <span style={{ color: '#fbbf24' }}> ▼</span>}
         </div>
 
+        {/* Projected outcome of playing the selected card here */}
+        {preview && (
+          <div className={`lane-preview ${preview.winner === null ? '' : preview.winner === localSeat ? 'winning' : 'losing'}`}>
+            <div className="lane-preview-totals">{preview.total} vs {preview.opponentTotal}</div>
+            {preview.hand && (
+              <div className="lane-preview-hand" title={preview.jokers.map(describeJokerAssignment).join(', ') || undefined}>
+                {describePokerHand(preview.hand)} +{preview.pokerBonus}
+              </div>
+            )}
+            <div className="lane-preview-outcome">{describeOutcome(preview)}</div>
+          </div>
+        )}
+
         {/* Player cards - stacked vertically */}
         <div className="lane-cards-stack player">
-          {lane.player1.cards.length === 0 ? (
+          {mySide.cards.length === 0 ? (
             <div className="lane-empty">—</div>
           ) : (
-            lane.player1.cards.map((card, idx) => (
+            mySide.cards.map((card, idx) => isStaged(card.id) ? (
+              <div
+                key={card.id}
+                className="stacked-card staged"
+                style={{ zIndex: idx }}
+                title={takeBackCheck.ok ? 'Planned · tap to take back' : 'Planned'}
+                onClick={e => { e.stopPropagation(); unstage(card.id) }}
+              >
+                <CardView card={card} small ownerSuit={myActiveSuit} />
+              </div>
+            ) : (
               <div key={card.id} className="stacked-card" style={{ zIndex: idx }}>
-                <CardView card={card} small ownerSuit={state.player1Suit} />
+                <CardView card={card} small ownerSuit={myActiveSuit} />
               </div>
             ))
           )}
@@ -248,10 +548,61 @@ export function GameBoard() {
     )
   }
 
+  // Breakdown of a lane resolution: each side's total, then how the damage was built up
+  const ResolutionOverlay = ({ resolution }: { resolution: LaneResolvedEvent }) => {
+    const { winner, baseDamage, damageBonus, healingMitigation, finalDamage, healingOverflow } = resolution
+    const loser: CurrentPlayer | null = winner === null ? null : winner === 1 ? 2 : 1
+    const sides = [opponentSeat, localSeat].map(seat => ({ seat, side: seat === 1 ? resolution.player1 : resolution.player2 }))
+
+    return (
+      <div className="resolution-overlay" onClick={dismissResolution}>
+        <div className={`resolution-panel ${winner === null ? 'tie' : winner === localSeat ? 'win' : 'lose'}`}>
+          <div className="resolution-title">
+            {LANE_NAMES[resolution.laneId]} lane {resolution.trigger === 'endOfRound' ? '· end of round' : 'resolves'}
+          </div>
+
+          {sides.map(({ seat, side }) => (
+            <div key={seat} className={`resolution-side ${seat === winner ? 'winner' : ''}`}>
+              <span className="resolution-name">{seatName(seat)}</span>
+              <div className="resolution-cards">
+                {side.cards.length === 0 ? <span className="lane-empty">—</span> : side.cards.map(card => (
+                  <CardView key={card.id} card={card} small ownerSuit={seat === localSeat ? myActiveSuit : opponentActiveSuit} />
+                ))}
+              </div>
+              <span className="resolution-total">
+                {side.baseSum}
+                {side.hand && <span className="resolution-hand"> + {side.pokerBonus} {describePokerHand(side.hand)}</span>}
+                {' = '}<strong>{side.total}</strong>
+                {side.jokers.length > 0 && (
+                  <span className="resolution-jokers">{side.jokers.map(describeJokerAssignment).join(', ')}</span>
+                )}
+              </span>
+            </div>
+          ))}
+
+          {winner === null || loser === null ? (
+            <div className="resolution-result">Tie · no damage</div>
+          ) : (
+            <div className="resolution-math">
+              <span>{withVerb(winner, 'win')} by {baseDamage}</span>
+              {damageBonus > 0 && <span className="bonus">+{damageBonus} suit damage</span>}
+              {healingMitigation > 0 && <span className="mitigation">−{healingMitigation} healing</span>}
+              <div className="resolution-result">
+                {healingOverflow > 0
+                  ? `${withVerb(loser, 'heal')} ${healingOverflow}`
+                  : `${finalDamage} damage to ${seatName(loser)}`}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   // Avatar component with pentagonal frame
   const Avatar = ({ suit, isPlayer }: { suit: StandardSuit | null; isPlayer: boolean }) => (
     <div className={`avatar-frame ${isPlayer ? 'player' : 'opponent'}`}>
-      <img src={getAvatarPath(suit)} alt={isPlayer ? 'Player avatar' : 'AI avatar'} />
+      <img src={getAvatarPath(suit)} alt={`${seatName(isPlayer ? localSeat : opponentSeat)} avatar`} />
     </div>
   )
 
@@ -278,7 +629,7 @@ export function GameBoard() {
         faceDown 
         small 
         cardBackType="ai"
-        cardBackSuit={state.fieldControlSuit}
+        cardBackSuit={view.fieldControlSuit}
       />
       <span className="draw-pile-count">{count}</span>
     </div>
@@ -286,18 +637,82 @@ export function GameBoard() {
 
   // Get dynamic background style
   const backgroundStyle = {
-    backgroundImage: `url('${getBackgroundImage(state.fieldControlSuit)}')`,
+    backgroundImage: `url('${getBackgroundImage(view.fieldControlSuit)}')`,
     backgroundRepeat: 'no-repeat',
     backgroundPosition: 'center center',
     backgroundSize: 'cover',
   }
 
-  // Suit Selection Screen
-  if (state.phase === 'SuitSelection') {
+  // Suit Selection Screen (online, wait for the other seat once ours is chosen)
+  if (view.phase === 'SuitSelection' && isOnline && mySuit !== null) {
+    return (
+      <div className="game-container">
+        <div className="suit-selection-screen">
+          <h2 className="suit-selection-title">Waiting for {opponentName}</h2>
+          <p className="suit-selection-subtitle">Your opponent is choosing a suit</p>
+        </div>
+        {onlineBar}
+      </div>
+    )
+  }
+
+  if (view.phase === 'SuitSelection') {
+    const availableSuits = getAvailableSuits(view)
+    const canChooseMode = !isReplay && !isOnline && view.player1Suit === null
     return (
       <div className="game-container">
         <div className="suit-selection-screen">
-          <h2 className="suit-selection-title">Choose Your Suit</h2>
+          {canChooseMode && (
+            <div className="mode-options">
+              <button
+                className={`mode-option ${localOpponent === 'ai' ? 'active' : ''}`}
+                onClick={() => setLocalOpponent('ai')}
+              >
+                vs AI
+              </button>
+              <button
+                className={`mode-option ${localOpponent === 'hotseat' ? 'active' : ''}`}
+                onClick={() => setLocalOpponent('hotseat')}
+              >
+                Pass &amp; Play
+              </button>
+              {localOpponent === 'ai' && (
+                <select
+                  className="mode-option difficulty-select"
+                  value={difficulty}
+                  onChange={e => isDifficulty(e.target.value) && setDifficulty(e.target.value)}
+                >
+                  {Object.entries(DIFFICULTIES).map(([id, name]) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+              )}
+              {localOpponent === 'ai' && (
+                <select
+                  className="mode-option personality-select"
+                  value={personality}
+                  title={PERSONALITIES[personality].description}
+                  onChange={e => isPersonalityId(e.target.value) && setPersonality(e.target.value)}
+                >
+                  {Object.values(PERSONALITIES).map(style => (
+                    <option key={style.id} value={style.id}>{style.name}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                className="mode-option rules-select"
+                value={view.rules.id}
+                onChange={e => handleRulesChange(e.target.value)}
+              >
+                {Object.values(RULE_SETS).map(rules => (
+                  <option key={rules.id} value={rules.id}>{rules.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <h2 className="suit-selection-title">
+            {isHotSeat ? `Player ${localSeat}: Choose Your Suit` : 'Choose Your Suit'}
+          </h2>
           <p className="suit-selection-subtitle">This will determine your champion</p>
           <div className="suit-options">
             {(['hearts', 'diamonds', 'clubs', 'spades'] as StandardSuit[]).map(suit => (
@@ -305,21 +720,58 @@ export function GameBoard() {
                 key={suit}
                 className={`suit-option ${suit}`}
                 onClick={() => handleSuitSelect(suit)}
+                disabled={!availableSuits.includes(suit)}
               >
                 <img src={getAvatarPath(suit)} alt={suit} />
                 <span className="suit-name">{suit.charAt(0).toUpperCase() + suit.slice(1)}</span>
               </button>
             ))}
           </div>
+          {canChooseMode && onResume && savedGame.save && (
+            <button className="replay-load resume-game" onClick={() => onResume(savedGame.save!)}>
+              Resume Game
+              <span className="resume-details">{describeSave(savedGame.save)}</span>
+            </button>
+          )}
+          {!isReplay && !isOnline && onWatchReplay && (
+            <label className="replay-load">
+              Load Replay
+              <input type="file" accept="application/json,.json" onChange={handleLoadReplay} hidden />
+            </label>
+          )}
+          {!isReplay && !isOnline && onPlayOnline && (
+            <button className="replay-load" onClick={onPlayOnline}>Play Online</button>
+          )}
+          {replayError && <p className="replay-error">{replayError}</p>}
+          {canChooseMode && savedGame.error && <p className="replay-error">{savedGame.error}</p>}
+        </div>
+        {replayBar}
+        {onlineBar}
+      </div>
+    )
+  }
+
+  // Hot-seat handoff: hide the previous hand until the next player takes the device
+  if (awaitingHandoff) {
+    return (
+      <div className="game-container" style={backgroundStyle}>
+        <div className="suit-selection-screen handoff-screen">
+          <h2 className="suit-selection-title">Pass to Player {view.currentPlayer}</h2>
+          <p className="suit-selection-subtitle">Player {localSeat}, hand the device over</p>
+          <button className="action-button flip" onClick={() => setDeviceSeat(view.currentPlayer)}>
+            I'm Player {view.currentPlayer}
+          </button>
         </div>
       </div>
     )
   }
 
   // War Flip Result Animation Screen
-  if (state.phase === 'InitialFlipResult' && state.flipResult) {
-    const { player1Card, player2Card, winner, damage } = state.flipResult
-    const playerWon = winner === 1
+  if (view.phase === 'InitialFlipResult' && view.flipResult) {
+    const { player1Card, player2Card, winner, damage } = view.flipResult
+    const playerWon = winner === localSeat
+    const myCard = localSeat === 1 ? player1Card : player2Card
+    const opponentCard = localSeat === 1 ? player2Card : player1Card
 
     return (
       <div className="game-container" style={backgroundStyle}>
@@ -328,11 +780,11 @@ export function GameBoard() {
           
           {/* Cards Display */}
           <div className="flip-cards-container">
-            {/* AI Card */}
+            {/* Opponent Card */}
             <div className={`flip-card-wrapper ${flipAnimationStage !== 'cards' ? (playerWon ? 'loser' : 'winner') : ''}`}>
-              <div className="flip-card-label">AI</div>
+              <div className="flip-card-label">{seatName(opponentSeat).toUpperCase()}</div>
               <div className="flip-card-display">
-                <CardView card={player2Card} ownerSuit={state.player2Suit} />
+                <CardView card={opponentCard} ownerSuit={opponentActiveSuit} />
               </div>
             </div>
 
@@ -341,9 +793,9 @@ export function GameBoard() {
 
             {/* Player Card */}
             <div className={`flip-card-wrapper ${flipAnimationStage !== 'cards' ? (playerWon ? 'winner' : 'loser') : ''}`}>
-              <div className="flip-card-label">YOU</div>
+              <div className="flip-card-label">{seatName(localSeat).toUpperCase()}</div>
               <div className="flip-card-display">
-                <CardView card={player1Card} ownerSuit={state.player1Suit} />
+                <CardView card={myCard} ownerSuit={myActiveSuit} />
               </div>
             </div>
           </div>
@@ -351,7 +803,7 @@ export function GameBoard() {
           {/* Result Text */}
           {flipAnimationStage !== 'cards' && (
             <div className={`flip-result-text ${playerWon ? 'win' : 'lose'}`}>
-              {playerWon ? 'YOU WIN THE FLIP!' : 'AI WINS THE FLIP!'}
+              {`${withVerb(winner, 'win')} the flip!`.toUpperCase()}
             </div>
           )}
 
@@ -359,7 +811,7 @@ export function GameBoard() {
           {flipAnimationStage === 'damage' && damage > 0 && (
             <div className="flip-damage-display">
               <span className={playerWon ? 'damage-to-ai' : 'damage-to-player'}>
-                -{damage} HP to {playerWon ? 'AI' : 'You'}
+                -{damage} HP to {seatName(winner === 1 ? 2 : 1)}
               </span>
             </div>
           )}
@@ -367,83 +819,108 @@ export function GameBoard() {
           {/* Who goes first */}
           {flipAnimationStage === 'damage' && (
             <div className="flip-first-turn">
-              {playerWon ? 'You go first!' : 'AI goes first!'}
+              {`${withVerb(winner, 'go')} first!`.replace('gos', 'goes')}
             </div>
           )}
         </div>
+        {replayBar}
+        {onlineBar}
       </div>
     )
   }
 
   const phaseColor = 
-    state.phase === 'Main' && isPlayerTurn ? '#22c55e' :
-    state.phase === 'Main' && !isPlayerTurn ? '#ef4444' :
-    state.phase === 'InitialFlip' ? '#3b82f6' :
-    state.phase === 'InitialFlipResult' ? '#3b82f6' :
-    state.phase === 'EndOfRoundResolving' ? '#f97316' :
-    state.phase === 'SuddenDeath' ? '#a855f7' : '#eab308'
+    view.phase === 'Main' && isPlayerTurn ? '#22c55e' :
+    view.phase === 'Main' && !isPlayerTurn ? '#ef4444' :
+    view.phase === 'InitialFlip' ? '#3b82f6' :
+    view.phase === 'InitialFlipResult' ? '#3b82f6' :
+    view.phase === 'EndOfRoundResolving' ? '#f97316' :
+    view.phase === 'SuddenDeath' ? '#a855f7' : '#eab308'
 
   return (
     <div className="game-container" style={backgroundStyle}>
       
-      {/* ===== TOP: AI Section ===== */}
+      {/* ===== TOP: Opponent Section ===== */}
       <div className="top-section">
-        {/* AI Hand (face down with field control suit card back) */}
+        {/* Opponent Hand (face down with field control suit card back) */}
         <div className="ai-hand">
-          {state.player2.hand.slice(0, 8).map(card => (
+          {opponent.hand ? opponent.hand.slice(0, 8).map(card => (
             <CardView 
               key={card.id} 
               card={card} 
+              small 
+              ownerSuit={opponentActiveSuit}
+            />
+          )) : Array.from({ length: Math.min(opponent.handCount, 8) }, (_, idx) => (
+            <CardView 
+              key={`hidden-${idx}`} 
+              card={{ id: `hidden-${idx}`, suit: 'hearts', rank: 2 }} 
               faceDown 
               small 
               cardBackType="ai" 
-              cardBackSuit={state.fieldControlSuit}
+              cardBackSuit={view.fieldControlSuit}
             />
           ))}
         </div>
 
-        {/* AI Avatar area with HP */}
+        {/* Opponent Avatar area with HP */}
         <div className="hero-float opponent">
-          <HPDisplay hp={state.player2.hp} isPlayer={false} />
-          <Avatar suit={state.player2Suit} isPlayer={false} />
-          <SupportIcon suit={state.player2Suit} />
+          <HPDisplay hp={opponent.hp} isPlayer={false} />
+          <Avatar suit={opponentSuit} isPlayer={false} />
+          <SupportIcon suit={opponentSuit} />
         </div>
       </div>
 
       {/* ===== MIDDLE: Game Board ===== */}
       <div className="middle-section">
         {/* Phase-specific buttons */}
-        {state.phase === 'InitialFlip' && (
+        {view.phase === 'InitialFlip' && isAuthority && (
           <button onClick={handleInitialFlip} className="action-button flip">
             Flip to Start!
           </button>
         )}
 
-        {state.phase === 'SuddenDeath' && (
+        {view.phase === 'SuddenDeath' && isAuthority && (
           <button onClick={handleSuddenDeath} className="action-button sudden">
             Sudden Death
           </button>
         )}
 
-        {state.phase === 'Finished' && (
-          <button onClick={handleNewGame} className="action-button newgame">
-            Play Again
-          </button>
+        {isOnline && !isAuthority && (view.phase === 'InitialFlip' || view.phase === 'SuddenDeath' || view.phase === 'Finished') && (
+          <div className="hint-text">Waiting for host…</div>
+        )}
+
+        {view.phase === 'Finished' && isAuthority && (
+          <>
+            <button onClick={handleNewGame} className="action-button newgame">
+              Play Again
+            </button>
+            {onWatchReplay && !isOnline && (
+              <div className="replay-actions">
+                <button onClick={() => onWatchReplay(recordRef.current)} className="replay-action">
+                  Watch Replay
+                </button>
+                <button onClick={() => downloadReplay(recordRef.current)} className="replay-action">
+                  Save Replay
+                </button>
+              </div>
+            )}
+          </>
         )}
 
         {/* Board Row: Draw Piles | Lanes | Discard + End Turn */}
-        {state.phase === 'Main' && (
+        {view.phase === 'Main' && (
           <div className="board-area">
             <div className="board-row">
               {/* Draw Piles - LEFT */}
               <div className="draw-piles-column">
-                <DrawPile count={state.player2.deck.length} />
-                <DrawPile count={state.player1.deck.length} />
+                <DrawPile count={opponent.deckCount} />
+                <DrawPile count={me.deckCount} />
               </div>
 
               {/* The 3 Lanes - CENTER */}
               <div className="lanes-container">
-                {state.lanes.map(lane => (
+                {board.lanes.map(lane => (
                   <LaneView key={lane.id} lane={lane} />
                 ))}
               </div>
@@ -451,20 +928,40 @@ export function GameBoard() {
               {/* Discard + End Turn - RIGHT */}
               <div className="side-action-right">
                 <div 
-                  className={`discard-pile ${selectedCardId && canAct ? 'discard-pile-targetable' : ''}`}
+                  className={`discard-pile ${selectedCardId && canAct ? 'discard-pile-targetable' : ''} ${hint?.move.type === 'discard' ? 'discard-pile-hinted' : ''}`}
                   onClick={handleDiscard}
                 >
                   <img src={DISCARD_BACK} alt="Discard pile" className="discard-image" />
-                  <span className="discard-count">{state.discardPile.length}</span>
+                  <span className="discard-count">{view.discardPile.length + stagedDiscards.length}</span>
                 </div>
+                {stagedDiscards.length > 0 && (
+                  <div className="staged-discards">
+                    {stagedDiscards.map(card => (
+                      <div key={card.id} className="stacked-card staged" title={takeBackCheck.ok ? 'Planned discard · tap to take back' : 'Planned discard'} onClick={() => unstage(card.id)}>
+                        <CardView card={card} small ownerSuit={myActiveSuit} />
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <button 
                   className="end-turn-btn"
                   onClick={handleEndTurn}
-                  disabled={!canEndTurn(state) || !isPlayerTurn}
+                  disabled={!isPlanning || !commitCheck.ok}
+                  title={commitCheck.ok ? undefined : describeRejection(commitCheck.reason)}
                 >
                   END<br/>TURN
                 </button>
-                <span className="cards-played">{state.cardsPlayedThisTurn}/3</span>
+                <span className="cards-played">{board.cardsPlayedThisTurn}/{view.rules.cardsPerTurn}</span>
+                {isPlanning && (
+                  <button
+                    className="undo-btn"
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    title={canUndo ? 'Take back your last play' : describeRejection(takeBackCheck.ok ? 'NOTHING_TO_UNDO' : takeBackCheck.reason)}
+                  >
+                    UNDO
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -473,19 +970,27 @@ export function GameBoard() {
         {/* Phase Banner - Below board, on player's side */}
         <div className="phase-row">
           <div className="phase-banner" style={{ background: phaseColor, color: '#000' }}>
-            {state.phase === 'Main' && isPlayerTurn && 'YOUR TURN'}
-            {state.phase === 'Main' && !isPlayerTurn && 'AI TURN'}
-            {state.phase === 'InitialFlip' && 'WAR FLIP'}
-            {state.phase === 'EndOfRoundResolving' && 'RESOLVING'}
-            {state.phase === 'SuddenDeath' && 'SUDDEN DEATH'}
-            {state.phase === 'Finished' && (state.winner === 1 ? 'YOU WIN!' : 'YOU LOSE')}
+            {view.phase === 'Main' && isPlayerTurn && !isHotSeat && 'YOUR TURN'}
+            {view.phase === 'Main' && (!isPlayerTurn || isHotSeat) && `${seatName(view.currentPlayer)} TURN`}
+            {view.phase === 'InitialFlip' && 'WAR FLIP'}
+            {view.phase === 'EndOfRoundResolving' && 'RESOLVING'}
+            {view.phase === 'SuddenDeath' && 'SUDDEN DEATH'}
+            {view.phase === 'Finished' && view.winner !== null && (isHotSeat
+              ? `${withVerb(view.winner, 'win')}!`
+              : view.winner === localSeat ? 'YOU WIN!' : 'YOU LOSE')}
           </div>
         </div>
 
         {/* Hint text */}
-        {canAct && state.phase === 'Main' && (
-          <div className={`hint-text ${selectedCardId ? 'active' : ''}`}>
-            {selectedCardId ? 'Tap lane or discard' : 'Select a card'}
+        {isPlanning && (
+          <div className="hint-row">
+            <div className={`hint-text ${rejection ? 'rejected' : hint ? 'advice' : selectedCardId ? 'active' : ''}`}>
+              {rejection ?? (hint
+                ? <><strong>{describeHintMove(hint)}.</strong> {hint.explanation}.</>
+                : !canAct ? 'Check your plays, then End Turn'
+                : selectedCardId ? 'Tap lane or discard' : 'Select a card')}
+            </div>
+            {canAct && <button className="hint-button" onClick={handleHint}>Hint</button>}
           </div>
         )}
       </div>
@@ -494,28 +999,32 @@ export function GameBoard() {
       <div className="bottom-section">
         {/* Player Avatar area with HP */}
         <div className="hero-float player">
-          <HPDisplay hp={state.player1.hp} isPlayer={true} />
-          <Avatar suit={state.player1Suit} isPlayer={true} />
-          <SupportIcon suit={state.player1Suit} />
+          <HPDisplay hp={me.hp} isPlayer={true} />
+          <Avatar suit={mySuit} isPlayer={true} />
+          <SupportIcon suit={mySuit} />
         </div>
 
         {/* Player Hand */}
         <div className="hand-container">
-          {state.phase === 'Main' && state.player1.hand.map(card => (
+          {view.phase === 'Main' && myHand.map(card => (
             <CardView
               key={card.id}
               card={card}
               selected={selectedCardId === card.id}
+              highlighted={hint?.card.id === card.id}
               onClick={() => handleCardClick(card.id)}
               disabled={!canAct}
-              ownerSuit={state.player1Suit}
+              ownerSuit={myActiveSuit}
             />
           ))}
-          {state.phase === 'Main' && state.player1.hand.length === 0 && (
+          {view.phase === 'Main' && myHand.length === 0 && (
             <span className="no-cards">No cards</span>
           )}
         </div>
       </div>
+      {currentResolution && <ResolutionOverlay key={currentResolution.seq} resolution={currentResolution} />}
+      {replayBar}
+      {onlineBar}
     </div>
   )
 }
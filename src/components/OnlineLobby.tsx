@@ -0,0 +1,120 @@
+/**
+ * OnlineLobby - Host or join a 1v1 room by code
+ *
+ * The host opens a room and waits for a guest; the guest enters the code.
+ * Once both sides are connected the session is handed to GameBoard.
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { createSeed } from '../game'
+import { createPeerNetwork, createRoomCode, hostSession, joinSession, NetworkError, normalizeRoomCode } from '../net'
+import type { GameSession, SessionSnapshot } from '../net'
+
+const GUEST_TOKEN_KEY = 'war-lanes-guest-token'
+
+// A stable per-tab token so a guest can reclaim their seat after a reconnect or refresh
+function getGuestToken(): string {
+  let token = sessionStorage.getItem(GUEST_TOKEN_KEY)
+  if (!token) {
+    token = crypto.randomUUID()
+    sessionStorage.setItem(GUEST_TOKEN_KEY, token)
+  }
+  return token
+}
+
+const noSubscription = () => () => {}
+const getNoSnapshot = () => null
+
+/**
+ * Subscribe to a session's snapshot; returns null when there is no session.
+ */
+export function useSessionSnapshot(session: GameSession | undefined): SessionSnapshot | null {
+  return useSyncExternalStore(session?.subscribe ?? noSubscription, session?.getSnapshot ?? getNoSnapshot)
+}
+
+interface OnlineLobbyProps {
+  onReady: (session: GameSession) => void
+  onCancel: () => void
+}
+
+export function OnlineLobby({ onReady, onCancel }: OnlineLobbyProps) {
+  const [session, setSession] = useState<GameSession | undefined>(undefined)
+  const [joinCode, setJoinCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const snapshot = useSessionSnapshot(session)
+
+  // Hand over to the board once the other seat is connected
+  useEffect(() => {
+    if (session && snapshot?.status === 'connected' && snapshot.view) onReady(session)
+  }, [session, snapshot, onReady])
+
+  const run = async (open: () => Promise<GameSession>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      setSession(await open())
+    } catch (e) {
+      setError(e instanceof NetworkError ? e.message : 'Could not reach the matchmaking server')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleHost = () => run(() => hostSession(createPeerNetwork(), { roomCode: createRoomCode(), seed: createSeed() }))
+
+  const handleJoin = () => {
+    const roomCode = normalizeRoomCode(joinCode)
+    if (!roomCode) return
+    run(() => joinSession(createPeerNetwork(), { roomCode, guestToken: getGuestToken() }))
+  }
+
+  const handleCancel = () => {
+    session?.close()
+    onCancel()
+  }
+
+  return (
+    <div className="game-container">
+      <div className="suit-selection-screen lobby-screen">
+        <h2 className="suit-selection-title">Play Online</h2>
+
+        {session ? (
+          <div className="lobby-waiting">
+            {session.role === 'host' ? (
+              <>
+                <p className="suit-selection-subtitle">Share this room code</p>
+                <div className="lobby-room-code">{session.roomCode}</div>
+                <p className="lobby-status">Waiting for opponent…</p>
+              </>
+            ) : (
+              <p className="lobby-status">Joining room {session.roomCode}…</p>
+            )}
+          </div>
+        ) : (
+          <div className="lobby-options">
+            <button className="action-button flip" onClick={handleHost} disabled={busy}>
+              Host Game
+            </button>
+            <div className="lobby-join">
+              <input
+                className="lobby-code-input"
+                value={joinCode}
+                onChange={e => setJoinCode(e.target.value)}
+                placeholder="ROOM CODE"
+                maxLength={8}
+              />
+              <button className="action-button newgame" onClick={handleJoin} disabled={busy || !joinCode.trim()}>
+                Join
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="replay-error">{error}</p>}
+
+        <button className="replay-load" onClick={handleCancel}>Back</button>
+      </div>
+    </div>
+  )
+}
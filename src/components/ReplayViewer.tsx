@@ -0,0 +1,101 @@
+/**
+ * ReplayViewer - Playback state and controls for recorded matches
+ *
+ * GameBoard switches into read-only replay mode when given a MatchRecord;
+ * this module owns the replay cursor and renders the playback bar.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  createReplay,
+  currentTurn,
+  getReplayState,
+  jumpTo,
+  jumpToTurn,
+  replayLength,
+  stepBack,
+  stepForward,
+} from '../game/replay'
+import type { MatchRecord, ReplayCursor } from '../game/replay'
+import type { GameState } from '../game/types'
+
+const PLAYBACK_INTERVAL_MS = 700
+
+export interface ReplayPlayer {
+  cursor: ReplayCursor
+  state: GameState
+  playing: boolean
+  setCursor: (cursor: ReplayCursor) => void
+  setPlaying: (playing: boolean) => void
+}
+
+/**
+ * Build the replay cursor for a record and drive auto-playback.
+ * Returns null when no record is given so callers can branch on live vs replay.
+ */
+export function useReplayPlayer(record: MatchRecord | undefined): ReplayPlayer | null {
+  const initialCursor = useMemo(() => record ? createReplay(record) : null, [record])
+  const [cursor, setCursor] = useState<ReplayCursor | null>(initialCursor)
+  const [playing, setPlaying] = useState(false)
+
+  // Reset when a different record is loaded
+  useEffect(() => {
+    setCursor(initialCursor)
+    setPlaying(false)
+  }, [initialCursor])
+
+  // Auto-advance while playing
+  useEffect(() => {
+    if (!playing || !cursor) return
+    if (cursor.index >= replayLength(cursor) - 1) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setCursor(stepForward(cursor)), PLAYBACK_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [playing, cursor])
+
+  if (!cursor || cursor.record !== record) return null
+  return { cursor, state: getReplayState(cursor), playing, setCursor, setPlaying }
+}
+
+interface ReplayControlsProps {
+  player: ReplayPlayer
+  onExit?: () => void
+}
+
+export function ReplayControls({ player, onExit }: ReplayControlsProps) {
+  const { cursor, playing, setCursor, setPlaying } = player
+  const turn = currentTurn(cursor)
+  const totalTurns = cursor.turnStarts.length
+  const lastIndex = replayLength(cursor) - 1
+  const lastAction = cursor.index > 0 ? cursor.record.actions[cursor.index - 1] : null
+
+  return (
+    <div className="replay-controls">
+      <div className="replay-status">
+        <span>Step {cursor.index}/{lastIndex}</span>
+        <span>Turn {turn}/{totalTurns}</span>
+        <span className="replay-last-action">{lastAction ? lastAction.type : 'Start'}</span>
+      </div>
+      <input
+        className="replay-scrubber"
+        type="range"
+        min={0}
+        max={lastIndex}
+        value={cursor.index}
+        onChange={e => setCursor(jumpTo(cursor, Number(e.target.value)))}
+      />
+      <div className="replay-buttons">
+        <button onClick={() => setCursor(jumpToTurn(cursor, turn - 1))} disabled={turn <= 1}>⏮</button>
+        <button onClick={() => setCursor(stepBack(cursor))} disabled={cursor.index === 0}>◀</button>
+        <button onClick={() => setPlaying(!playing)} disabled={cursor.index === lastIndex && !playing}>
+          {playing ? '❚❚' : '▶'}
+        </button>
+        <button onClick={() => setCursor(stepForward(cursor))} disabled={cursor.index === lastIndex}>▶|</button>
+        <button onClick={() => setCursor(jumpToTurn(cursor, turn + 1))} disabled={turn >= totalTurns}>⏭</button>
+        {onExit && <button className="replay-exit" onClick={onExit}>Exit</button>}
+      </div>
+    </div>
+  )
+}
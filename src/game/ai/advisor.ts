@@ -0,0 +1,145 @@
+/**
+ * Move Advisor
+ *
+ * Recommends the human player's next move with the same turn search the Hard
+ * AI uses, and explains it in a short sentence built from the move features.
+ * Meant to teach the ascending lane rule, pending countdowns and poker bonuses
+ * while playing.
+ */
+
+import { cardToString, cardValue, findCardById } from '../deck';
+import type { JokerAssignment, PokerHand } from '../poker';
+import { calculateBaseSum, classifyLaneHand, describeJokerAssignment } from '../poker';
+import { createRng } from '../rng';
+import { findLane } from '../state';
+import { getSuitEffectType } from '../suitEffects';
+import type { Card, LaneId } from '../types';
+import type { PlayerView } from '../view';
+import { getOwnHand } from '../view';
+import { determinize } from './determinize';
+import type { MoveFeatures } from './features';
+import { getMoveFeatures } from './features';
+import { getLegalLanePlays, ownSide } from './moves';
+import { DEFAULT_NODE_BUDGET, searchBudget, searchTurns } from './search';
+import type { AIMove } from './types';
+
+export interface Hint {
+  move: AIMove;
+  card: Card;
+  laneTotal: number | null; // Lane total after the play: base sum plus poker bonus
+  hand: PokerHand | null;   // Poker hand the lane would make
+  pokerBonus: number;
+  jokers: JokerAssignment[]; // What each joker in the lane would be played as
+  explanation: string;
+}
+
+// Hints are asked for on the board, so a slow device also cuts the search short
+const HINT_BUDGET_MS = 150;
+
+const HAND_NAMES: Record<PokerHand, string> = {
+  pair: 'a pair',
+  threeOfAKind: 'three of a kind',
+  straight: 'a straight',
+  flush: 'a flush',
+  straightFlush: 'a straight flush',
+};
+
+/**
+ * Player-facing name of a poker hand, e.g. "three of a kind".
+ */
+export function describePokerHand(hand: PokerHand): string {
+  return HAND_NAMES[hand].replace(/^an? /, '');
+}
+
+function sentence(reasons: string[]): string {
+  const text = reasons.slice(0, 2).join(' and ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function explainLanePlay(view: PlayerView, laneId: LaneId, hand: PokerHand | null, bonus: number, features: MoveFeatures): string {
+  const lane = `${laneId} lane`;
+  const reasons: string[] = [];
+
+  if (hand && features.pokerBonus > 0) reasons.push(`completes ${HAND_NAMES[hand]} (+${bonus})`);
+
+  if (features.urgency) {
+    const pending = view.pendingResolutionLanes.find(p => p.laneId === laneId);
+    reasons.push(pending
+      ? `answers the pending ${lane} before it resolves in ${pending.turnsUntilResolution} turn${pending.turnsUntilResolution === 1 ? '' : 's'}`
+      : `answers the ${lane} your opponent has filled`);
+  } else if (features.completion) {
+    const turns = view.rules.pendingResolutionTurns;
+    reasons.push(turns > 0 ? `fills your side of the ${lane}, starting a ${turns}-turn countdown` : `fills your side of the ${lane}`);
+  }
+
+  if (features.contestWin) reasons.push(`takes the lead in the ${lane}`);
+
+  if (features.suitEffect > 0) {
+    const ownSuit = view.viewer === 1 ? view.player1Suit : view.player2Suit;
+    const effect = ownSuit && getSuitEffectType(ownSuit) === 'damage' ? 'damage' : 'healing';
+    reasons.push(`its +${features.suitEffect} ${effect} counts there`);
+  }
+
+  if (reasons.length === 0) {
+    reasons.push(features.building
+      ? `builds on your ${lane}; lane values can't go down, so low cards go first`
+      : `opens the ${lane} low, leaving room for higher cards`);
+  }
+  return sentence(reasons);
+}
+
+function explainDiscard(view: PlayerView, card: Card): string {
+  const reason = getLegalLanePlays(view, view.viewer).length > 0
+    ? 'Right now a discard costs you less than any lane play'
+    : view.lanes.some(lane => ownSide(view, lane).cards.length < view.rules.maxCardsPerLane)
+      ? "No card fits a lane (lane values can't go down)"
+      : 'Your side of every lane is full';
+  const isLowest = getOwnHand(view).every(other => cardValue(other) >= cardValue(card));
+  const discard = isLowest
+    ? `discard your lowest card for ${cardValue(card)} damage`
+    : `discard ${cardToString(card)} for ${cardValue(card)} damage, keeping your lower cards for the lanes`;
+  return `${reason}, so ${discard}`;
+}
+
+/**
+ * The recommended next move for the viewer, or null when it isn't their move.
+ */
+export function getHint(view: PlayerView): Hint | null {
+  const hand = getOwnHand(view);
+  if (view.phase !== 'Main' || view.currentPlayer !== view.viewer) return null;
+  if (hand.length === 0 || view.cardsPlayedThisTurn >= view.rules.cardsPerTurn) return null;
+
+  // Only the viewer's own cards move during the search, so any deal of the unseen cards will do
+  const { state } = determinize(view, createRng(view.events.length));
+  const move = searchTurns(state, view.viewer, searchBudget(DEFAULT_NODE_BUDGET, HINT_BUDGET_MS))[0]?.moves[0];
+  if (!move) return null;
+
+  const card = findCardById(hand, move.cardId)!;
+  if (move.type === 'discard' || !move.laneId) {
+    return { move, card, laneTotal: null, hand: null, pokerBonus: 0, jokers: [], explanation: explainDiscard(view, card) };
+  }
+
+  const cardsAfter = [...ownSide(view, findLane(view.lanes, move.laneId)!).cards, card];
+  const { category, bonus, jokers } = classifyLaneHand(cardsAfter, view.rules.pokerBonuses);
+  const laneHand = category === 'none' ? null : category;
+  const features = getMoveFeatures(view, view.viewer, card, move.laneId);
+  return {
+    move,
+    card,
+    laneTotal: calculateBaseSum(cardsAfter) + bonus,
+    hand: laneHand,
+    pokerBonus: bonus,
+    jokers,
+    explanation: explainLanePlay(view, move.laneId, laneHand, bonus, features),
+  };
+}
+
+/**
+ * One-line summary of a hint, e.g. "Play 7♥ to the left lane (total 22)".
+ */
+export function describeHintMove(hint: Hint): string {
+  if (hint.move.type === 'discard') return `Discard ${cardToString(hint.card)}`;
+  const jokers = hint.jokers.map(joker => `, ${describeJokerAssignment(joker)}`).join('');
+  const total = hint.hand ? `total ${hint.laneTotal} with ${describePokerHand(hint.hand)}${jokers}` : `total ${hint.laneTotal}`;
+  return `Play ${cardToString(hint.card)} to the ${hint.move.laneId} lane (${total})`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Determinization
+ *
+ * Turns a PlayerView back into a full GameState the reducer can run. The
+ * cards the viewer cannot see (the opponent's hand and both decks) are dealt
+ * from a shuffle of the unseen cards, so each call yields one possible world
+ * consistent with everything the viewer knows.
+ */
+
+import { createDeck, shuffle } from '../deck';
+import type { RngState } from '../rng';
+import type { Card, GameState, PlayerState } from '../types';
+import type { PlayerView, SeatView } from '../view';
+import { getOwnHand } from '../view';
+
+/**
+ * Every card not in the discard pile, on the lanes or in the viewer's hand.
+ */
+export function getUnseenCards(view: PlayerView): Card[] {
+  const seen = new Set([
+    ...view.discardPile,
+    ...getOwnHand(view),
+    ...view.lanes.flatMap(lane => [...lane.player1.cards, ...lane.player2.cards]),
+  ].map(card => card.id));
+  return createDeck(view.rules.jokerCount).filter(card => !seen.has(card.id));
+}
+
+/**
+ * Sample a full GameState consistent with the view.
+ */
+export function determinize(view: PlayerView, rng: RngState): { state: GameState; rng: RngState } {
+  const { items: unseen, rng: next } = shuffle(getUnseenCards(view), rng);
+  let dealt = 0;
+  const take = (count: number) => unseen.slice(dealt, dealt += count);
+  const seat = (side: SeatView): PlayerState => ({
+    hp: side.hp,
+    hand: side.hand ?? take(side.handCount),
+    deck: take(side.deckCount),
+  });
+
+  // The viewer's undo snapshots are not part of the view, and searches never undo
+  const { viewer: _viewer, undoDepth: _undoDepth, player1, player2, ...shared } = view;
+  return {
+    state: { ...shared, player1: seat(player1), player2: seat(player2), rng: next, undoStack: [] },
+    rng: next,
+  };
+}
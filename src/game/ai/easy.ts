@@ -0,0 +1,34 @@
+/**
+ * Easy AI for War-Lanes Poker
+ *
+ * Plays a random legal lane play and only discards when it has to. It never
+ * looks at the opponent's lanes, so it misses urgent responses and rarely
+ * builds poker hands on purpose.
+ */
+
+import { cardValue } from '../deck';
+import type { RngState } from '../rng';
+import { createRng, nextInt } from '../rng';
+import { getOwnHand } from '../view';
+import { getLegalLanePlays } from './moves';
+import type { Agent } from './types';
+
+export function createEasyAgent(seed: number): Agent {
+  let rng: RngState = createRng(seed);
+  return {
+    name: 'easy',
+    chooseMove(view) {
+      const hand = getOwnHand(view);
+      if (hand.length === 0) return null;
+
+      const plays = getLegalLanePlays(view, view.viewer);
+      if (plays.length === 0) {
+        const lowestCard = hand.reduce((low, card) => cardValue(card) < cardValue(low) ? card : low);
+        return { type: 'discard', cardId: lowestCard.id };
+      }
+      const pick = nextInt(rng, plays.length);
+      rng = pick.rng;
+      return plays[pick.value];
+    },
+  };
+}
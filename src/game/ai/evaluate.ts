@@ -0,0 +1,50 @@
+/**
+ * Position Evaluation
+ *
+ * Scores a GameState from one seat's point of view: the HP difference, plus
+ * what each lane would deal if it resolved as it stands, discounted by how
+ * much either side can still change it before it does.
+ */
+
+import { computeLaneResolution, laneSuits } from '../resolution';
+import type { CurrentPlayer, GameState, Lane } from '../types';
+
+const WIN_SCORE = 1000;
+
+// Weight of a lane's projected swing; lanes on a countdown are more certain,
+// and at the end of the round every lane resolves as it stands
+const OPEN_LANE_WEIGHT = 0.4;
+const PENDING_LANE_WEIGHT: Record<number, number> = { 1: 0.8, 2: 0.6 };
+
+/**
+ * HP swing in seat's favour if the lane resolved right now.
+ */
+export function projectLaneSwing(
+  state: Pick<GameState, 'rules' | 'player1Suit' | 'player2Suit'>,
+  lane: Lane,
+  seat: CurrentPlayer
+): number {
+  const { winner, finalDamage, healingOverflow } = computeLaneResolution(lane, laneSuits(state), state.rules);
+  if (winner === null) return 0;
+  const swing = finalDamage - healingOverflow;
+  return winner === seat ? swing : -swing;
+}
+
+function laneWeight(state: GameState, lane: Lane): number {
+  if (state.phase === 'EndOfRoundResolving') return 1;
+  const pending = state.pendingResolutionLanes.find(p => p.laneId === lane.id);
+  if (!pending) return OPEN_LANE_WEIGHT;
+  return PENDING_LANE_WEIGHT[pending.turnsUntilResolution] ?? OPEN_LANE_WEIGHT;
+}
+
+export function evaluateState(state: GameState, seat: CurrentPlayer): number {
+  if (state.phase === 'Finished') return state.winner === seat ? WIN_SCORE : -WIN_SCORE;
+
+  const own = seat === 1 ? state.player1 : state.player2;
+  const opponent = seat === 1 ? state.player2 : state.player1;
+  let score = own.hp - opponent.hp;
+  for (const lane of state.lanes) {
+    score += laneWeight(state, lane) * projectLaneSwing(state, lane, seat);
+  }
+  return score;
+}
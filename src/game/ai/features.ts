@@ -0,0 +1,96 @@
+/**
+ * Move Features
+ *
+ * Describes a single move as a set of numeric features. Every AI play style
+ * scores moves as a weighted sum of these same features; only the weights
+ * differ (see personality.ts).
+ */
+
+import { cardValue, isJoker } from '../deck';
+import { calculateLaneTotal } from '../poker';
+import { getSuitEffectValue } from '../suitEffects';
+import type { Card, CurrentPlayer, GameState, Lane, LaneId } from '../types';
+import { projectLaneSwing } from './evaluate';
+
+export interface MoveFeatures {
+  urgency: number;        // Answers a lane the opponent has filled
+  completion: number;     // Fills the AI's side of a lane
+  building: number;       // Adds to a lane the AI has already started
+  cardValue: number;      // Value of the card spent
+  pokerBonus: number;     // Poker bonus the play adds to the lane
+  pairDraw: number;       // Matches a rank already in the lane
+  flushDraw: number;      // Matches the suit of every card in the lane
+  straightDraw: number;   // 1 for consecutive values, 0.5 for gaps of two
+  contestWin: number;     // Leads a lane the opponent has also played into
+  losingFill: number;     // Fills a side that still trails
+  laneSwing: number;      // Change in the lane's projected outcome, suit effects included
+  suitEffect: number;     // Active card effect that will count in this lane
+  joker: number;          // Spends a joker
+  discardPenalty: number; // HP lost by discarding
+}
+
+export type FeatureWeights = Record<keyof MoveFeatures, number>;
+
+export type FeatureContext = Pick<GameState, 'lanes' | 'rules' | 'player1Suit' | 'player2Suit'>;
+
+const NO_FEATURES: MoveFeatures = {
+  urgency: 0, completion: 0, building: 0, cardValue: 0, pokerBonus: 0, pairDraw: 0, flushDraw: 0,
+  straightDraw: 0, contestWin: 0, losingFill: 0, laneSwing: 0, suitEffect: 0, joker: 0, discardPenalty: 0,
+};
+
+/**
+ * Features of playing a card to a lane, or of discarding it when laneId is null.
+ */
+export function getMoveFeatures(state: FeatureContext, seat: CurrentPlayer, card: Card, laneId: LaneId | null): MoveFeatures {
+  const value = cardValue(card);
+  const joker = isJoker(card) ? 1 : 0;
+  if (laneId === null) return { ...NO_FEATURES, cardValue: value, joker, discardPenalty: value };
+
+  const lane = state.lanes.find(l => l.id === laneId)!;
+  const ownCards = (seat === 1 ? lane.player1 : lane.player2).cards;
+  const opponentCards = (seat === 1 ? lane.player2 : lane.player1).cards;
+  const { maxCardsPerLane, pokerBonuses, suitEffects } = state.rules;
+
+  const cardsAfter = [...ownCards, card];
+  const totalBefore = calculateLaneTotal(ownCards, pokerBonuses);
+  const totalAfter = calculateLaneTotal(cardsAfter, pokerBonuses);
+  const opponentTotal = calculateLaneTotal(opponentCards, pokerBonuses);
+  const completes = cardsAfter.length === maxCardsPerLane;
+
+  const laneAfter: Lane = seat === 1 ? { ...lane, player1: { cards: cardsAfter } } : { ...lane, player2: { cards: cardsAfter } };
+  const swingAfter = projectLaneSwing(state, laneAfter, seat);
+  const effect = getSuitEffectValue(card, seat === 1 ? state.player1Suit : state.player2Suit, suitEffects);
+
+  let straightDraw = 0;
+  if (ownCards.length > 0) {
+    const values = cardsAfter.map(cardValue).sort((a, b) => a - b);
+    const gaps = values.slice(1).map((v, i) => v - values[i]);
+    if (gaps.every(g => g === 1)) straightDraw = 1;
+    else if (gaps.every(g => g <= 2)) straightDraw = 0.5;
+  }
+
+  return {
+    urgency: opponentCards.length === maxCardsPerLane ? 1 : 0,
+    completion: completes ? 1 : 0,
+    building: ownCards.length > 0 && !completes ? 1 : 0,
+    cardValue: value,
+    pokerBonus: totalAfter - totalBefore - value,
+    pairDraw: ownCards.some(c => c.rank === card.rank) ? 1 : 0,
+    flushDraw: ownCards.length > 0 && ownCards.every(c => c.suit === card.suit) ? 1 : 0,
+    straightDraw,
+    contestWin: opponentCards.length > 0 && totalAfter > opponentTotal ? 1 : 0,
+    losingFill: opponentCards.length > 0 && completes && totalAfter < opponentTotal ? 1 : 0,
+    laneSwing: swingAfter - projectLaneSwing(state, lane, seat),
+    suitEffect: swingAfter > 0 ? effect.damage : swingAfter < 0 ? effect.healing : 0,
+    joker,
+    discardPenalty: 0,
+  };
+}
+
+export function scoreFeatures(features: MoveFeatures, weights: FeatureWeights): number {
+  let score = 0;
+  for (const key of Object.keys(weights) as (keyof MoveFeatures)[]) {
+    score += features[key] * weights[key];
+  }
+  return score;
+}
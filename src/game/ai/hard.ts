@@ -0,0 +1,41 @@
+/**
+ * Hard AI for War-Lanes Poker
+ *
+ * Plans the whole turn at once: searches every ordered sequence of plays on a
+ * determinized copy of the game and plays the one whose resulting position
+ * scores best, leaning towards the moves its play style likes. The search is
+ * cut off after a set number of positions, so a seeded agent always plays the
+ * same moves; interactive play can also cap it at a per-turn time budget.
+ */
+
+import type { RngState } from '../rng';
+import { createRng } from '../rng';
+import { determinize } from './determinize';
+import type { Personality } from './personality';
+import { PERSONALITIES } from './personality';
+import { createPlanningAgent, DEFAULT_NODE_BUDGET, searchBudget, searchTurns } from './search';
+import type { Agent } from './types';
+
+// The time cap the board gives the AI's search on slow devices
+export const DEFAULT_TIME_BUDGET_MS = 250;
+
+export interface HardAgentOptions {
+  nodeBudget?: number;   // Positions searched per turn
+  timeBudgetMs?: number; // Per turn, for interactive play only: moves then depend on the machine's speed
+  seed?: number;         // For dealing the unseen cards
+  personality?: Personality;
+}
+
+export function createHardAgent({
+  nodeBudget = DEFAULT_NODE_BUDGET,
+  timeBudgetMs,
+  seed = 0,
+  personality = PERSONALITIES.balanced,
+}: HardAgentOptions = {}): Agent {
+  let rng: RngState = createRng(seed);
+  return createPlanningAgent('hard', view => {
+    const sampled = determinize(view, rng);
+    rng = sampled.rng;
+    return searchTurns(sampled.state, view.viewer, searchBudget(nodeBudget, timeBudgetMs), 1, personality)[0];
+  }, personality, seed);
+}
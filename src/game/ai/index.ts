@@ -0,0 +1,71 @@
+/**
+ * AI Agents
+ *
+ * Difficulty tiers the UI offers, plus the random baseline used by simulations.
+ */
+
+import { createEasyAgent } from './easy';
+import { createHardAgent } from './hard';
+import { createMonteCarloAgent } from './montecarlo';
+import { createNormalAgent } from './normal';
+import { createPersonalityAgent, PERSONALITIES } from './personality';
+import type { Agent, Difficulty, PersonalityId } from './types';
+
+export type { Agent, AIMove, Difficulty, PersonalityId } from './types';
+export type { FeatureWeights, MoveFeatures } from './features';
+export { getMoveFeatures, scoreFeatures } from './features';
+export { getLegalLanePlays, moveToAction } from './moves';
+export { createEasyAgent } from './easy';
+export { createNormalAgent, getAIMove, normalAgent } from './normal';
+export type { HardAgentOptions } from './hard';
+export { createHardAgent, DEFAULT_TIME_BUDGET_MS } from './hard';
+export type { MonteCarloAgentOptions } from './montecarlo';
+export { createMonteCarloAgent, DEFAULT_ITERATIONS } from './montecarlo';
+export { createRandomAgent } from './random';
+export { chooseSuit, suitAction } from './suits';
+export type { Hint } from './advisor';
+export { describeHintMove, describePokerHand, getHint } from './advisor';
+export type { Personality, PersonalityAgentOptions } from './personality';
+export { createPersonalityAgent, isPersonalityId, PERSONALITIES } from './personality';
+
+export const DIFFICULTIES: Record<Difficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && Object.hasOwn(DIFFICULTIES, value);
+}
+
+// How often a personality at Easy and Normal makes a random lane play
+const MISTAKE_RATES: Record<'easy' | 'normal', number> = {
+  easy: 0.4,
+  normal: 0.1,
+};
+
+function createTierAgent(difficulty: Difficulty, seed: number, personality: PersonalityId, timeBudgetMs?: number): Agent {
+  const style = PERSONALITIES[personality];
+  switch (difficulty) {
+    case 'easy':
+    case 'normal':
+      if (personality !== 'balanced') return createPersonalityAgent(style, { seed, mistakeRate: MISTAKE_RATES[difficulty] });
+      return difficulty === 'easy' ? createEasyAgent(seed) : createNormalAgent(seed);
+    case 'hard': return createHardAgent({ seed, personality: style, timeBudgetMs });
+    case 'expert': return createMonteCarloAgent({ seed, personality: style, searchBudgetMs: timeBudgetMs });
+  }
+}
+
+/**
+ * Create an agent for a difficulty tier. The seed only matters for agents
+ * that make random choices. At Easy and Normal any personality other than
+ * Balanced replaces the tier's own strategy with that play style, making
+ * random plays now and then; Hard and Expert keep their search and steer it
+ * with the style's weights. Their searches stop after a fixed number of
+ * positions, so the seed decides every move; a time budget also cuts them
+ * short on slow machines, which only interactive play should ask for.
+ */
+export function createAgent(difficulty: Difficulty, seed: number, personality: PersonalityId = 'balanced', timeBudgetMs?: number): Agent {
+  return { ...createTierAgent(difficulty, seed, personality, timeBudgetMs), difficulty };
+}
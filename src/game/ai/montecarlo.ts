@@ -0,0 +1,107 @@
+/**
+ * Monte Carlo AI for War-Lanes Poker
+ *
+ * Reasons about the cards it cannot see. The turn search shortlists the most
+ * promising candidate turns; then, for each iteration, the unseen cards
+ * (everything not in the discard pile, on the lanes or in its own hand) are
+ * dealt into a possible opponent hand and deck order, and every candidate is
+ * played out with gameReducer followed by a short rollout (the opponent's
+ * reply and the agent's next turn) in which both seats play the Normal
+ * strategy. The candidate with the best average outcome, plus the play
+ * style's taste for its moves, wins.
+ *
+ * All candidates share the same sampled worlds, so they are compared on equal
+ * footing even with few iterations.
+ */
+
+import { gameReducer } from '../reducer';
+import type { RngState } from '../rng';
+import { createRng } from '../rng';
+import type { CurrentPlayer, GameState } from '../types';
+import { canEndTurn } from '../validation';
+import type { PlayerView } from '../view';
+import { getPlayerView } from '../view';
+import { determinize } from './determinize';
+import { evaluateState } from './evaluate';
+import { moveToAction } from './moves';
+import { getAIMove } from './normal';
+import type { Personality } from './personality';
+import { PERSONALITIES } from './personality';
+import { createPlanningAgent, DEFAULT_NODE_BUDGET, searchBudget, searchTurns } from './search';
+import type { TurnPlan } from './search';
+import type { Agent } from './types';
+
+export const DEFAULT_ITERATIONS = 24;
+
+export interface MonteCarloAgentOptions {
+  iterations?: number;     // Sampled worlds per turn
+  candidates?: number;     // Candidate turns kept from the search
+  rolloutTurns?: number;   // Turns played after the candidate before scoring
+  searchNodes?: number;    // Positions searched for the shortlist
+  searchBudgetMs?: number; // Time cap on the shortlist, for interactive play only: moves then depend on the machine's speed
+  seed?: number;
+  personality?: Personality;
+}
+
+/**
+ * Play both seats with the Normal strategy for a few turns, finishing the
+ * round if it ends on the way.
+ */
+function rollout(state: GameState, turns: number): GameState {
+  let current = state;
+  let turnsLeft = turns;
+  while (turnsLeft > 0 && current.phase === 'Main') {
+    const player = current.currentPlayer;
+    if (canEndTurn(current, player)) {
+      current = gameReducer(current, { type: 'END_TURN', player });
+      turnsLeft--;
+      continue;
+    }
+    const move = getAIMove(getPlayerView(current, player));
+    const next = move ? gameReducer(current, moveToAction(move, player)) : current;
+    if (next === current) break;
+    current = next;
+  }
+  return current.phase === 'EndOfRoundResolving' ? gameReducer(current, { type: 'RESOLVE_END_OF_ROUND' }) : current;
+}
+
+function playOut(state: GameState, seat: CurrentPlayer, plan: TurnPlan, rolloutTurns: number): number {
+  let current = state;
+  for (const move of plan.moves) current = gameReducer(current, moveToAction(move, seat));
+  if (canEndTurn(current, seat)) current = gameReducer(current, { type: 'END_TURN', player: seat });
+  return evaluateState(rollout(current, rolloutTurns), seat);
+}
+
+export function createMonteCarloAgent({
+  iterations = DEFAULT_ITERATIONS,
+  candidates = 6,
+  rolloutTurns = 2,
+  searchNodes = DEFAULT_NODE_BUDGET,
+  searchBudgetMs,
+  seed = 0,
+  personality = PERSONALITIES.balanced,
+}: MonteCarloAgentOptions = {}): Agent {
+  let rng: RngState = createRng(seed);
+
+  const sample = (view: PlayerView) => {
+    const sampled = determinize(view, rng);
+    rng = sampled.rng;
+    return sampled.state;
+  };
+
+  return createPlanningAgent('expert', view => {
+    const seat = view.viewer;
+    const shortlist = searchTurns(sample(view), seat, searchBudget(searchNodes, searchBudgetMs), candidates, personality);
+    if (shortlist.length <= 1) return shortlist[0];
+
+    const totals = shortlist.map(plan => plan.styleScore * iterations);
+    for (let i = 0; i < iterations; i++) {
+      const world = sample(view);
+      shortlist.forEach((plan, index) => {
+        totals[index] += playOut(world, seat, plan, rolloutTurns);
+      });
+    }
+    const best = totals.indexOf(Math.max(...totals));
+    return shortlist[best];
+  }, personality, seed);
+}
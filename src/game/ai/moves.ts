@@ -0,0 +1,47 @@
+/**
+ * Move Helpers Shared by the AI Agents
+ */
+
+import type { GameAction } from '../reducer';
+import type { CurrentPlayer, Lane, LaneId } from '../types';
+import type { ValidationContext } from '../validation';
+import { canPlayCardToLane } from '../validation';
+import type { PlayerView } from '../view';
+import type { AIMove } from './types';
+
+export const LANE_IDS: LaneId[] = ['left', 'middle', 'right'];
+
+// Lane sides relative to the seat the AI is playing
+export function ownSide(state: PlayerView, lane: Lane) {
+  return state.viewer === 1 ? lane.player1 : lane.player2;
+}
+
+export function opponentSide(state: PlayerView, lane: Lane) {
+  return state.viewer === 1 ? lane.player2 : lane.player1;
+}
+
+/**
+ * Every legal lane play from a seat's hand. Works on a PlayerView or on a
+ * full GameState during search.
+ */
+export function getLegalLanePlays(state: ValidationContext, player: CurrentPlayer): AIMove[] {
+  const moves: AIMove[] = [];
+  const hand = (player === 1 ? state.player1.hand : state.player2.hand) ?? [];
+  for (const card of hand) {
+    for (const laneId of LANE_IDS) {
+      if (canPlayCardToLane(state, player, card.id, laneId)) {
+        moves.push({ type: 'lane', cardId: card.id, laneId });
+      }
+    }
+  }
+  return moves;
+}
+
+/**
+ * The reducer action that plays a move for the given seat.
+ */
+export function moveToAction(move: AIMove, player: CurrentPlayer): GameAction {
+  return move.type === 'lane' && move.laneId
+    ? { type: 'PLAY_CARD_TO_LANE', player, cardId: move.cardId, laneId: move.laneId }
+    : { type: 'DISCARD_CARD', player, cardId: move.cardId };
+}
@@ -0,0 +1,159 @@
+/**
+ * Normal AI for War-Lanes Poker
+ * 
+ * AI Strategy (v2 - Improved):
+ * 1. URGENCY: Respond to lanes where player has 3 cards (pending resolution)
+ * 2. COMPLETE: Try to complete lanes where AI has 2 cards
+ * 3. BUILD: Continue building in lanes where AI has cards
+ * 4. START: Start new lanes with lowest value cards
+ * 5. DISCARD: Only as last resort (no legal plays)
+ * 
+ * General principle: Play lowest cards first, save high cards for later.
+ * With suit effects, active cards go first where their effect will count.
+ */
+
+import type { Card, Lane } from '../types';
+import { cardValue } from '../deck';
+import { getSuitEffectValue } from '../suitEffects';
+import { canPlayCardToLane } from '../validation';
+import type { PlayerView } from '../view';
+import { getOwnHand } from '../view';
+import { projectLaneSwing } from './evaluate';
+import { opponentSide, ownSide } from './moves';
+import { chooseSuit } from './suits';
+import type { Agent, AIMove } from './types';
+
+/**
+ * Get the AI's next move for whichever seat the view belongs to.
+ * Returns the best move for the AI's view of the game; the AI never sees the full state.
+ */
+export function getAIMove(state: PlayerView): AIMove | null {
+  const hand = getOwnHand(state);
+  if (hand.length === 0) return null;
+
+  // Sort hand by value (play lowest cards first)
+  const sortedHand = [...hand].sort((a, b) => cardValue(a) - cardValue(b));
+
+  // Priority 1: Respond to URGENT lanes (player has 3 cards, will auto-resolve next turn)
+  const urgentMove = findUrgentLanePlay(state, sortedHand);
+  if (urgentMove) {
+    return urgentMove;
+  }
+
+  // Priority 2-4: Find best strategic lane play
+  const strategicMove = findStrategicLanePlay(state, sortedHand);
+  if (strategicMove) {
+    return strategicMove;
+  }
+
+  // Priority 5: Discard lowest card as last resort
+  const lowestCard = sortedHand[0];
+  return { type: 'discard', cardId: lowestCard.id };
+}
+
+/**
+ * Order cards for a lane: active cards whose effect will count there come
+ * first (damage where the AI is ahead, healing where it is behind, after both
+ * suits' effects), otherwise lowest value first.
+ */
+function cardsForLane(state: PlayerView, sortedHand: Card[], lane: Lane): Card[] {
+  const values = state.rules.suitEffects;
+  if (!values) return sortedHand;
+
+  const ownSuit = state.viewer === 1 ? state.player1Suit : state.player2Suit;
+  const ahead = projectLaneSwing(state, lane, state.viewer) >= 0;
+  const usefulEffect = (card: Card) => {
+    const effect = getSuitEffectValue(card, ownSuit, values);
+    return ahead ? effect.damage : effect.healing;
+  };
+  return [...sortedHand].sort((a, b) => usefulEffect(b) - usefulEffect(a));
+}
+
+/**
+ * Find urgent lane plays - lanes where player has 3 cards (pending resolution).
+ * AI MUST respond to these or lose the lane by default.
+ */
+function findUrgentLanePlay(state: PlayerView, sortedHand: Card[]): AIMove | null {
+  // Find lanes where the opponent has filled their side but AI hasn't
+  const urgentLanes = state.lanes.filter(lane => 
+    opponentSide(state, lane).cards.length === state.rules.maxCardsPerLane && 
+    ownSide(state, lane).cards.length < state.rules.maxCardsPerLane
+  );
+
+  if (urgentLanes.length === 0) return null;
+
+  // For each urgent lane, try to play a card (lowest first)
+  for (const lane of urgentLanes) {
+    for (const card of cardsForLane(state, sortedHand, lane)) {
+      if (canPlayCardToLane(state, state.viewer, card.id, lane.id)) {
+        return { type: 'lane', cardId: card.id, laneId: lane.id };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find strategic lane plays following priority order:
+ * 1. Complete lanes (AI has 2 cards)
+ * 2. Add to existing lanes (AI has 1 card)
+ * 3. Start new lanes
+ */
+function findStrategicLanePlay(state: PlayerView, sortedHand: Card[]): AIMove | null {
+  // Priority 2: Complete lanes where AI has 2 cards
+  const almostCompleteLanes = state.lanes.filter(lane => 
+    ownSide(state, lane).cards.length === 2
+  );
+  for (const lane of almostCompleteLanes) {
+    for (const card of cardsForLane(state, sortedHand, lane)) {
+      if (canPlayCardToLane(state, state.viewer, card.id, lane.id)) {
+        return { type: 'lane', cardId: card.id, laneId: lane.id };
+      }
+    }
+  }
+
+  // Priority 3: Add to lanes where AI has 1 card
+  const lanesWithOneCard = state.lanes.filter(lane => 
+    ownSide(state, lane).cards.length === 1
+  );
+  // Prefer lanes where player also has cards (contest them)
+  const contestedLanes = lanesWithOneCard.filter(lane => opponentSide(state, lane).cards.length > 0);
+  const uncontectedLanes = lanesWithOneCard.filter(lane => opponentSide(state, lane).cards.length === 0);
+  
+  for (const lane of [...contestedLanes, ...uncontectedLanes]) {
+    for (const card of cardsForLane(state, sortedHand, lane)) {
+      if (canPlayCardToLane(state, state.viewer, card.id, lane.id)) {
+        return { type: 'lane', cardId: card.id, laneId: lane.id };
+      }
+    }
+  }
+
+  // Priority 4: Start new lanes with lowest cards
+  const emptyLanes = state.lanes.filter(lane => 
+    ownSide(state, lane).cards.length === 0
+  );
+  // Prefer lanes where player has cards (contest) over empty lanes
+  const playerStartedLanes = emptyLanes.filter(lane => opponentSide(state, lane).cards.length > 0);
+  const fullyEmptyLanes = emptyLanes.filter(lane => opponentSide(state, lane).cards.length === 0);
+  
+  for (const lane of [...playerStartedLanes, ...fullyEmptyLanes]) {
+    for (const card of cardsForLane(state, sortedHand, lane)) {
+      if (canPlayCardToLane(state, state.viewer, card.id, lane.id)) {
+        return { type: 'lane', cardId: card.id, laneId: lane.id };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The Normal AI. Its moves are fixed; the seed only settles ties between
+ * equally good suits.
+ */
+export function createNormalAgent(seed = 0): Agent {
+  return { name: 'normal', chooseMove: getAIMove, chooseSuit: view => chooseSuit(view, 'healing', seed) };
+}
+
+export const normalAgent: Agent = createNormalAgent();
@@ -0,0 +1,136 @@
+/**
+ * AI Personalities
+ *
+ * Named play styles. Each is a set of weights over the shared move features,
+ * plus the kind of suit it likes to pick. Balanced reproduces the standard
+ * move scoring used by the difficulty tiers.
+ */
+
+import { findCardById } from '../deck';
+import type { RngState } from '../rng';
+import { createRng, nextFloat, nextInt } from '../rng';
+import type { PlayerView } from '../view';
+import { getOwnHand } from '../view';
+import type { FeatureWeights } from './features';
+import { getMoveFeatures, scoreFeatures } from './features';
+import { getLegalLanePlays } from './moves';
+import { chooseSuit } from './suits';
+import type { Agent, AIMove, PersonalityId } from './types';
+
+export interface Personality {
+  id: PersonalityId;
+  name: string;
+  description: string;
+  suit: 'damage' | 'healing';
+  weights: FeatureWeights;
+}
+
+const BALANCED: Personality = {
+  id: 'balanced',
+  name: 'Balanced',
+  description: 'Answers threats, builds lanes and saves its high cards',
+  suit: 'healing',
+  weights: {
+    urgency: 1000,
+    completion: 100,
+    building: 50,
+    cardValue: -2,
+    pokerBonus: 3,
+    pairDraw: 15,
+    flushDraw: 12,
+    straightDraw: 15,
+    contestWin: 20,
+    losingFill: -10,
+    laneSwing: 1,
+    suitEffect: 2,
+    joker: 0,
+    discardPenalty: -20,
+  },
+};
+
+export const PERSONALITIES: Record<PersonalityId, Personality> = {
+  balanced: BALANCED,
+  aggressive: {
+    id: 'aggressive',
+    name: 'Aggressive',
+    description: 'Races to fill lanes and start countdowns, spending high cards freely',
+    suit: 'damage',
+    weights: { ...BALANCED.weights, urgency: 200, completion: 250, building: 120, cardValue: 1, contestWin: 40, losingFill: 0, suitEffect: 3 },
+  },
+  turtle: {
+    id: 'turtle',
+    name: 'Turtle',
+    description: 'Waits, answers every pending lane and hoards jokers',
+    suit: 'healing',
+    weights: { ...BALANCED.weights, urgency: 2000, completion: -30, building: 10, cardValue: -4, losingFill: -40, laneSwing: 2, joker: -60 },
+  },
+  gambler: {
+    id: 'gambler',
+    name: 'Gambler',
+    description: 'Chases pairs, straights and flushes',
+    suit: 'damage',
+    weights: { ...BALANCED.weights, urgency: 300, cardValue: -1, pokerBonus: 8, pairDraw: 40, flushDraw: 45, straightDraw: 45, contestWin: 5 },
+  },
+  bleeder: {
+    id: 'bleeder',
+    name: 'Bleeder',
+    description: 'Discards and takes the damage rather than feed a lane it would lose',
+    suit: 'healing',
+    weights: { ...BALANCED.weights, urgency: 300, cardValue: -3, losingFill: -60, laneSwing: 4, discardPenalty: -1 },
+  },
+};
+
+export function isPersonalityId(value: unknown): value is PersonalityId {
+  return typeof value === 'string' && Object.hasOwn(PERSONALITIES, value);
+}
+
+export interface PersonalityAgentOptions {
+  seed?: number;
+  mistakeRate?: number; // Chance of a random lane play instead of the best move
+}
+
+/**
+ * Plays the best-scoring move under the personality's weights, discards
+ * included, occasionally making a random lane play instead.
+ */
+export function createPersonalityAgent(
+  personality: Personality,
+  { seed = 0, mistakeRate = 0 }: PersonalityAgentOptions = {}
+): Agent {
+  let rng: RngState = createRng(seed);
+
+  const score = (view: PlayerView, move: AIMove) => {
+    const card = findCardById(getOwnHand(view), move.cardId)!;
+    return scoreFeatures(getMoveFeatures(view, view.viewer, card, move.laneId ?? null), personality.weights);
+  };
+
+  return {
+    name: personality.id,
+    personality: personality.id,
+    chooseSuit: view => chooseSuit(view, personality.suit, seed),
+    chooseMove(view) {
+      const lanePlays = getLegalLanePlays(view, view.viewer);
+      const discards: AIMove[] = getOwnHand(view).map(card => ({ type: 'discard', cardId: card.id }));
+      if (discards.length === 0) return null;
+
+      const roll = nextFloat(rng);
+      rng = roll.rng;
+      if (roll.value < mistakeRate && lanePlays.length > 0) {
+        const pick = nextInt(rng, lanePlays.length);
+        rng = pick.rng;
+        return lanePlays[pick.value];
+      }
+
+      let best = discards[0];
+      let bestScore = -Infinity;
+      for (const move of [...lanePlays, ...discards]) {
+        const moveScore = score(view, move);
+        if (moveScore > bestScore) {
+          best = move;
+          bestScore = moveScore;
+        }
+      }
+      return best;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Random Agent
+ *
+ * Plays a uniformly random legal move, discards included. A baseline for
+ * simulations rather than an opponent.
+ */
+
+import type { RngState } from '../rng';
+import { createRng, nextInt } from '../rng';
+import { getOwnHand } from '../view';
+import { getLegalLanePlays } from './moves';
+import type { Agent, AIMove } from './types';
+
+export function createRandomAgent(seed: number): Agent {
+  let rng: RngState = createRng(seed);
+  return {
+    name: 'random',
+    chooseMove(view) {
+      const discards: AIMove[] = getOwnHand(view).map(card => ({ type: 'discard', cardId: card.id }));
+      const moves = [...getLegalLanePlays(view, view.viewer), ...discards];
+      if (moves.length === 0) return null;
+      const pick = nextInt(rng, moves.length);
+      rng = pick.rng;
+      return moves[pick.value];
+    },
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Turn Search
+ *
+ * Enumerates every legal ordered sequence of plays for the rest of a turn,
+ * discards included, and applies each with the real gameReducer followed by
+ * END_TURN, so lane fills, immediate and pending resolutions and suit effects
+ * all play out exactly. Moves are tried in order of their feature score under
+ * the play style's weights, so the plans found before the budget runs out are
+ * already reasonable. A style other than Balanced also adds its taste for each move
+ * to the plan's score, measured against Balanced, so the search trades HP for
+ * the kind of moves the style favours.
+ */
+
+import { cardValue, findCardById } from '../deck';
+import { gameReducer } from '../reducer';
+import type { Card, CurrentPlayer, GameState } from '../types';
+import { canEndTurn, validateAction } from '../validation';
+import type { PlayerView } from '../view';
+import { getOwnHand } from '../view';
+import { evaluateState } from './evaluate';
+import type { FeatureWeights } from './features';
+import { getMoveFeatures, scoreFeatures } from './features';
+import { getLegalLanePlays, moveToAction } from './moves';
+import type { Personality } from './personality';
+import { PERSONALITIES } from './personality';
+import { chooseSuit } from './suits';
+import type { Agent, AIMove } from './types';
+
+function getOwnCards(state: GameState, seat: CurrentPlayer): Card[] {
+  return seat === 1 ? state.player1.hand : state.player2.hand;
+}
+
+function isTurnOver(state: GameState, seat: CurrentPlayer): boolean {
+  return state.phase !== 'Main'
+    || state.currentPlayer !== seat
+    || state.cardsPlayedThisTurn >= state.rules.cardsPerTurn
+    || getOwnCards(state, seat).length === 0;
+}
+
+// Feature scores run to the thousands; this brings a style's taste down to HP
+const STYLE_WEIGHT = 0.01;
+
+/**
+ * How much more than Balanced the style likes each feature, in HP; null for
+ * Balanced itself, whose plans are scored on the position alone.
+ */
+function styleWeights(personality: Personality): FeatureWeights | null {
+  if (personality.id === 'balanced') return null;
+  const base = PERSONALITIES.balanced.weights;
+  return Object.fromEntries(Object.entries(personality.weights).map(([feature, weight]) =>
+    [feature, (weight - base[feature as keyof FeatureWeights]) * STYLE_WEIGHT]
+  )) as FeatureWeights;
+}
+
+function styleScore(state: GameState, seat: CurrentPlayer, move: AIMove, weights: FeatureWeights | null): number {
+  if (!weights) return 0;
+  const card = findCardById(getOwnCards(state, seat), move.cardId)!;
+  return scoreFeatures(getMoveFeatures(state, seat, card, move.laneId ?? null), weights);
+}
+
+/**
+ * Legal moves in search order: lane plays by feature score, then discards, cheapest first.
+ */
+function orderedMoves(state: GameState, seat: CurrentPlayer, weights: FeatureWeights): AIMove[] {
+  const hand = getOwnCards(state, seat);
+  const score = (move: AIMove) => scoreFeatures(getMoveFeatures(state, seat, findCardById(hand, move.cardId)!, move.laneId!), weights);
+  const lanePlays = getLegalLanePlays(state, seat)
+    .map(move => ({ move, score: score(move) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ move }) => move);
+  const discards: AIMove[] = [...hand]
+    .sort((a, b) => cardValue(a) - cardValue(b))
+    .map(card => ({ type: 'discard', cardId: card.id }));
+  return [...lanePlays, ...discards];
+}
+
+export interface TurnPlan {
+  moves: AIMove[];
+  eventCounts: number[]; // Event log length expected before each move
+  score: number;
+  styleScore: number; // Part of the score from the play style's taste for the moves
+}
+
+/**
+ * The same position reached by plays in a different order only counts once.
+ */
+function positionKey(state: GameState): string {
+  const lanes = state.lanes.map(lane => [lane.player1, lane.player2].map(side => side.cards.map(c => c.id).join(',')).join('|'));
+  return `${lanes.join('/')}:${state.player1.hp}:${state.player2.hp}:${state.discardPile.length}`;
+}
+
+/**
+ * How far a search may go. The node count keeps the result a function of the
+ * position alone; a deadline (a performance.now() time) also ties it to the
+ * machine's speed, so only interactive play, where a slow device must not
+ * stall the board, should set one.
+ */
+// Covers the whole search on a typical turn, which visits about 3,500 positions
+export const DEFAULT_NODE_BUDGET = 5000;
+
+export interface SearchBudget {
+  nodes: number;     // Positions the search may visit
+  deadline?: number;
+}
+
+/**
+ * A budget of the given node count, cut short after `timeBudgetMs` from now if given.
+ */
+export function searchBudget(nodes: number, timeBudgetMs?: number): SearchBudget {
+  return timeBudgetMs === undefined ? { nodes } : { nodes, deadline: performance.now() + timeBudgetMs };
+}
+
+/**
+ * Depth-first search over every ordered sequence of plays for the rest of the
+ * turn. Returns up to `limit` plans reaching distinct positions, best first.
+ * Once the budget runs out the search stops and keeps what it has found.
+ */
+export function searchTurns(
+  state: GameState,
+  seat: CurrentPlayer,
+  budget: SearchBudget,
+  limit = 1,
+  personality: Personality = PERSONALITIES.balanced
+): TurnPlan[] {
+  const style = styleWeights(personality);
+  const plans: (TurnPlan & { key: string })[] = [];
+  let visited = 0;
+  let outOfBudget = false;
+
+  const consider = (plan: TurnPlan, ended: GameState) => {
+    if (plans.length === limit && plan.score <= plans[limit - 1].score) return;
+    const key = positionKey(ended);
+    const existing = plans.findIndex(p => p.key === key);
+    if (existing !== -1) {
+      if (plans[existing].score >= plan.score) return;
+      plans.splice(existing, 1);
+    }
+    plans.push({ ...plan, key });
+    plans.sort((a, b) => b.score - a.score);
+    if (plans.length > limit) plans.pop();
+  };
+
+  const visit = (current: GameState, moves: AIMove[], eventCounts: number[], taste: number) => {
+    if (outOfBudget) return;
+    visited++;
+    if (plans.length > 0 && (visited > budget.nodes || (budget.deadline !== undefined && performance.now() > budget.deadline))) {
+      outOfBudget = true;
+      return;
+    }
+
+    if (isTurnOver(current, seat)) {
+      const ended = canEndTurn(current, seat) ? gameReducer(current, { type: 'END_TURN', player: seat }) : current;
+      consider({ moves, eventCounts, score: evaluateState(ended, seat) + taste, styleScore: taste }, ended);
+      return;
+    }
+
+    for (const move of orderedMoves(current, seat, personality.weights)) {
+      const next = gameReducer(current, moveToAction(move, seat));
+      visit(next, [...moves, move], [...eventCounts, current.events.length], taste + styleScore(current, seat, move, style));
+    }
+  };
+
+  visit(state, [], [], 0);
+  return plans.map(({ key: _key, ...plan }) => plan);
+}
+
+/**
+ * An agent that plans a whole turn at once and then plays it out. The plan is
+ * followed as long as the game unfolds as predicted; anything unexpected
+ * (or a new turn) asks for a fresh plan.
+ */
+export function createPlanningAgent(
+  name: string,
+  makePlan: (view: PlayerView) => TurnPlan | undefined,
+  personality: Personality = PERSONALITIES.balanced,
+  seed = 0
+): Agent {
+  let plan: TurnPlan | undefined;
+  let step = 0;
+
+  return {
+    name,
+    ...(personality.id !== 'balanced' && { personality: personality.id }),
+    chooseSuit: view => chooseSuit(view, personality.suit, seed),
+    chooseMove(view) {
+      if (getOwnHand(view).length === 0) return null;
+
+      const planned = plan?.moves[step];
+      if (planned && plan!.eventCounts[step] === view.events.length && validateAction(view, moveToAction(planned, view.viewer)).ok) {
+        step++;
+        return planned;
+      }
+
+      plan = makePlan(view);
+      step = 0;
+      return plan?.moves[step++] ?? null;
+    },
+  };
+}
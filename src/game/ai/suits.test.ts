@@ -0,0 +1,47 @@
+/**
+ * AI Suit Choice Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { RuleSet } from '../rules';
+import { RULE_SETS } from '../rules';
+import { initializeNewGame } from '../state';
+import { getSuitEffectType } from '../suitEffects';
+import type { StandardSuit } from '../types';
+import { getPlayerView } from '../view';
+import { chooseSuit } from './suits';
+
+const V13 = RULE_SETS['v1.3'];
+
+// Player 2's view at suit selection, after player 1's pick if given
+function suitView(rules: RuleSet, opponentSuit: StandardSuit | null = null) {
+  return getPlayerView({ ...initializeNewGame(1, rules), player1Suit: opponentSuit }, 2);
+}
+
+describe('AI suit choice', () => {
+  it("weighs the rule set's effect tiers", () => {
+    expect(getSuitEffectType(chooseSuit(suitView(V13), 'damage'))).toBe('damage');
+    // Healing pays off in lost lanes, which hold the low cards
+    const lowHeavy = { ...V13, suitEffects: { low: 9, mid: 5, high: 1 } };
+    expect(getSuitEffectType(chooseSuit(suitView(lowHeavy), 'damage'))).toBe('healing');
+    const highHeavy = { ...V13, suitEffects: { low: 1, mid: 5, high: 9 } };
+    expect(getSuitEffectType(chooseSuit(suitView(highHeavy), 'healing'))).toBe('damage');
+  });
+
+  it("answers the opponent's suit", () => {
+    expect(getSuitEffectType(chooseSuit(suitView(V13, 'spades'), 'damage'))).toBe('healing');
+    expect(getSuitEffectType(chooseSuit(suitView(V13, 'hearts'), 'healing'))).toBe('damage');
+  });
+
+  it('lets the seed pick between suits that score the same', () => {
+    const picks = new Set(Array.from({ length: 20 }, (_, seed) => chooseSuit(suitView(V13), 'healing', seed)));
+    expect(picks).toEqual(new Set(['hearts', 'clubs']));
+    expect(chooseSuit(suitView(V13), 'healing', 3)).toBe(chooseSuit(suitView(V13), 'healing', 3));
+  });
+
+  it('follows the play style without suit effects', () => {
+    const v12 = RULE_SETS['v1.2'];
+    expect(getSuitEffectType(chooseSuit(suitView(v12, 'spades'), 'damage'))).toBe('damage');
+    expect(getSuitEffectType(chooseSuit(suitView(v12, 'hearts'), 'healing'))).toBe('healing');
+  });
+});
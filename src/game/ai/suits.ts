@@ -0,0 +1,88 @@
+/**
+ * AI Suit Choice
+ *
+ * Active-card damage only counts in lanes the seat wins and healing only in
+ * lanes it loses, so a suit is worth whatever share of lanes the seat expects
+ * to win or lose, times the effect its active cards would have there. Winning
+ * sides hold more of the high cards, so damage leans on the rule set's high
+ * tier and healing on its low tier. The opponent's suit shifts the share: a
+ * damage-suit opponent pushes to win lanes, which makes healing the better
+ * answer, and a healing-suit opponent is content to lose them, which leaves
+ * lanes for a damage suit. The play style's preference tips the balance, and
+ * the agent's seed picks between suits that score the same. Without suit
+ * effects in the rule set the choice makes no difference.
+ */
+
+import type { GameAction } from '../reducer';
+import { getAvailableSuits } from '../reducer';
+import type { SuitEffectValues } from '../rules';
+import { createRng, nextInt } from '../rng';
+import { getSuitEffectType } from '../suitEffects';
+import type { StandardSuit } from '../types';
+import type { PlayerView } from '../view';
+import type { Agent } from './types';
+
+type SuitEffectType = 'damage' | 'healing';
+
+// How far the opponent's suit and the play style move the expected share of lanes won
+const OPPONENT_SHIFT = 0.1;
+const STYLE_SHIFT = 0.05;
+
+// Rough share of each effect tier among the active cards on the winning side
+// of a lane, which damage needs, and on the losing side, which healing needs
+const TIER_WEIGHTS: Record<SuitEffectType, SuitEffectValues> = {
+  damage: { low: 3, mid: 5, high: 5 },
+  healing: { low: 5, mid: 5, high: 3 },
+};
+
+function averageEffect(type: SuitEffectType, effects: SuitEffectValues): number {
+  const weights = TIER_WEIGHTS[type];
+  const total = weights.low + weights.mid + weights.high;
+  return (weights.low * effects.low + weights.mid * effects.mid + weights.high * effects.high) / total;
+}
+
+/**
+ * Expected HP swing per active card from playing the given suit, against the
+ * opponent's suit if they have picked one.
+ */
+function scoreSuit(
+  suit: StandardSuit,
+  opponentSuit: StandardSuit | null,
+  effects: SuitEffectValues,
+  prefer: SuitEffectType
+): number {
+  let winShare = 0.5;
+  if (opponentSuit) winShare += getSuitEffectType(opponentSuit) === 'damage' ? -OPPONENT_SHIFT : OPPONENT_SHIFT;
+  winShare += prefer === 'damage' ? STYLE_SHIFT : -STYLE_SHIFT;
+  const type = getSuitEffectType(suit);
+  const share = type === 'damage' ? winShare : 1 - winShare;
+  return share * averageEffect(type, effects);
+}
+
+export function chooseSuit(view: PlayerView, prefer: SuitEffectType = 'healing', seed = 0): StandardSuit {
+  const available = getAvailableSuits(view);
+  const effects = view.rules.suitEffects;
+  const opponentSuit = view.viewer === 1 ? view.player2Suit : view.player1Suit;
+  const score = (suit: StandardSuit) => effects
+    ? scoreSuit(suit, opponentSuit, effects, prefer)
+    : getSuitEffectType(suit) === prefer ? 1 : 0;
+
+  const bestScore = Math.max(...available.map(score));
+  const best = available.filter(suit => score(suit) === bestScore);
+  return best[nextInt(createRng(seed), best.length).value];
+}
+
+/**
+ * The suit selection action for an agent's seat, tagging the seat with the
+ * agent's profile for the event log.
+ */
+export function suitAction(agent: Agent, view: PlayerView): GameAction {
+  const profile = {
+    agent: agent.name,
+    personality: agent.personality ?? 'balanced',
+    ...(agent.difficulty && { difficulty: agent.difficulty }),
+  };
+  return agent.chooseSuit
+    ? { type: 'SELECT_SUIT', player: view.viewer, suit: agent.chooseSuit(view), agent: profile }
+    : { type: 'SELECT_RANDOM_SUIT', player: view.viewer, agent: profile };
+}
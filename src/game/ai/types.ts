@@ -0,0 +1,35 @@
+/**
+ * AI Agent Types
+ *
+ * Every AI plays through the same Agent interface: it is handed the PlayerView
+ * of the seat it controls and returns one move at a time. Agents never see the
+ * full GameState, so any of them can play either seat.
+ */
+
+import type { LaneId, StandardSuit } from '../types';
+import type { PlayerView } from '../view';
+
+export interface AIMove {
+  type: 'lane' | 'discard';
+  cardId: string;
+  laneId?: LaneId;
+}
+
+export type PersonalityId = 'balanced' | 'aggressive' | 'turtle' | 'gambler' | 'bleeder';
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+export interface Agent {
+  name: string;
+  personality?: PersonalityId; // Play style, when not the standard one
+  difficulty?: Difficulty;     // Tier it was created for, when made through createAgent
+  /**
+   * The next move for view.viewer, or null if there is nothing left to play.
+   */
+  chooseMove(view: PlayerView): AIMove | null;
+  /**
+   * A deliberate suit pick from the suits still available; agents without
+   * one get a random suit.
+   */
+  chooseSuit?(view: PlayerView): StandardSuit;
+}
@@ -3,10 +3,12 @@
  */
 
 import type { Card, Rank, StandardRank, StandardSuit } from './types';
+import type { RngState } from './rng';
+import { nextInt } from './rng';
 
 export const STANDARD_SUITS: StandardSuit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const STANDARD_RANKS: StandardRank[] = [2, 3, 4, 5, 6, 7, 8, 9, 10, 'J', 'Q', 'K', 'A'];
-export const JOKER_COUNT = 4;
+export const JOKER_COUNT = 4; // Standard deck; rule sets may use another count
 export const DECK_SIZE = 56;
 
 export function cardValue(card: Card): number {
@@ -24,7 +26,7 @@ export function rankValue(rank: Rank): number {
   }
 }
 
-export function createDeck(): Card[] {
+export function createDeck(jokerCount: number = JOKER_COUNT): Card[] {
   const cards: Card[] = [];
   let cardIndex = 0;
 
@@ -34,20 +36,27 @@ export function createDeck(): Card[] {
     }
   }
 
-  for (let i = 0; i < JOKER_COUNT; i++) {
+  for (let i = 0; i < jokerCount; i++) {
     cards.push({ id: `card-${cardIndex++}`, suit: 'joker', rank: 'JOKER' });
   }
 
   return cards;
 }
 
-export function shuffle<T>(items: T[]): T[] {
+/**
+ * Fisher-Yates shuffle driven by the game RNG.
+ * Returns the shuffled copy along with the advanced generator.
+ */
+export function shuffle<T>(items: T[], rng: RngState): { items: T[]; rng: RngState } {
   const result = [...items];
+  let cursor = rng;
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const draw = nextInt(cursor, i + 1);
+    cursor = draw.rng;
+    const j = draw.value;
     [result[i], result[j]] = [result[j], result[i]];
   }
-  return result;
+  return { items: result, rng: cursor };
 }
 
 export function isJoker(card: Card): boolean {
@@ -0,0 +1,73 @@
+/**
+ * Game Event Log
+ *
+ * Every reducer transition appends typed events describing what happened and
+ * why HP changed. The log lives on GameState so the UI, analytics and replays
+ * all read from the same record.
+ */
+
+import type { LaneResolution } from './resolution';
+import type { Card, CurrentPlayer, GameState, LaneId, StandardSuit } from './types';
+
+export type LaneResolutionTrigger = 'immediate' | 'pending' | 'endOfRound';
+
+// Which AI plays a seat, so the log shows who the opponent was
+export interface AgentProfile {
+  agent: string;
+  personality: string;
+  difficulty?: string; // Missing for agents not made for a difficulty tier
+}
+
+export type GameEventPayload =
+  | { type: 'GameStarted'; seed: number }
+  | ({ type: 'AgentSeated'; player: CurrentPlayer } & AgentProfile)
+  | { type: 'SuitsSelected'; player1Suit: StandardSuit; player2Suit: StandardSuit }
+  | { type: 'RoundStarted' }
+  | {
+      type: 'WarFlip';
+      player1Card: Card;
+      player2Card: Card;
+      winner: CurrentPlayer;
+      damage: number;
+      fieldControlSuit: StandardSuit | null;
+    }
+  | { type: 'CardPlayed'; player: CurrentPlayer; card: Card; laneId: LaneId }
+  | { type: 'DiscardPenalty'; player: CurrentPlayer; card: Card; damage: number }
+  | { type: 'PlayUndone'; player: CurrentPlayer; card: Card }
+  | { type: 'LanePending'; laneId: LaneId; filledByPlayer: CurrentPlayer; turnsUntilResolution: number }
+  | ({ type: 'LaneResolved'; trigger: LaneResolutionTrigger } & LaneResolution)
+  | { type: 'TurnEnded'; player: CurrentPlayer; cardsDrawn: number; cardsBurned: number; finalTurn: boolean }
+  | { type: 'RoundEnded'; player1Hp: number; player2Hp: number }
+  | { type: 'SuddenDeath'; player1Hp: number; player2Hp: number }
+  | { type: 'GameWon'; winner: CurrentPlayer; player1Hp: number; player2Hp: number; bySuddenDeath: boolean };
+
+export interface GameEventMeta {
+  seq: number;   // Position in the log
+  round: number; // Round the event happened in
+}
+
+export type GameEvent = GameEventPayload & GameEventMeta;
+
+export type GameEventType = GameEventPayload['type'];
+
+/**
+ * Append events to the state's log, stamping sequence and round numbers.
+ */
+export function appendEvents(state: GameState, ...payloads: GameEventPayload[]): GameState {
+  if (payloads.length === 0) return state;
+  const events = [...state.events];
+  for (const payload of payloads) {
+    events.push({ ...payload, seq: events.length, round: state.roundNumber });
+  }
+  return { ...state, events };
+}
+
+/**
+ * Filter the log down to a single event type, with the narrowed type.
+ */
+export function eventsOfType<T extends GameEventType>(
+  events: GameEvent[],
+  type: T
+): Extract<GameEvent, { type: T }>[] {
+  return events.filter((event): event is Extract<GameEvent, { type: T }> => event.type === type);
+}
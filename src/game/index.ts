@@ -4,12 +4,35 @@
 
 export type { Card, CurrentPlayer, GamePhase, GameState, Lane, LaneId, LaneSide, PlayerState, Rank, StandardRank, StandardSuit, Suit } from './types';
 export { cardToString, cardValue, createDeck, DECK_SIZE, findCardById, isJoker, JOKER_COUNT, rankValue, removeCardById, shuffle, STANDARD_RANKS, STANDARD_SUITS } from './deck';
-export { calculateBaseSum, calculateLaneTotal, evaluateLaneBonus, isFlush, isPair, isStraight, isThreeOfAKind } from './poker';
+export type { HandCategory, HandClassification, JokerAssignment, LaneHand, PokerHand } from './poker';
+export { allLanes, calculateBaseSum, calculateLaneTotal, classifyLaneHand, classifyLaneHandBruteForce, describeJokerAssignment, evaluateLaneBonus, evaluateLaneHand, isFlush, isPair, isStraight, isThreeOfAKind } from './poker';
 export { applyDamage, createEmptyLanes, drawCards, findLane, initializeNewGame, isLaneReadyToResolve, startNewRound, updateLane } from './state';
-export type { GameAction } from './reducer';
-export { canEndTurn, canPlayCardToLane, gameReducer } from './reducer';
-export { executeAITurn, getAIMove } from './ai';
+export type { AgentProfile, GameEvent, GameEventPayload, GameEventType, LaneResolutionTrigger } from './events';
+export { appendEvents, eventsOfType } from './events';
+export type { LaneResolution, LaneSideSummary, LaneSuits } from './resolution';
+export { computeLaneResolution, laneSuits } from './resolution';
+export type { RngState } from './rng';
+export { createRng, createSeed, nextFloat, nextInt, nextSeed } from './rng';
+export type { GameAction, TurnPlay } from './reducer';
+export { gameReducer, getAvailableSuits, isGameAction } from './reducer';
+export type { RejectionReason, ValidationContext, ValidationResult } from './validation';
+export { applyStagedPlays, canEndTurn, canPlayCardToLane, describeRejection, getUndoDepth, validateAction, validateTakeBack } from './validation';
+export type { PokerBonuses, RuleSet, RuleSetId, SuitEffectValues } from './rules';
+export { DEFAULT_RULES, getRuleSet, isRuleSetId, isRuleSetLike, ONLINE_RULES, RULE_SETS } from './rules';
+export type { Agent, Difficulty, FeatureWeights, HardAgentOptions, Hint, MonteCarloAgentOptions, MoveFeatures, Personality, PersonalityAgentOptions, PersonalityId } from './ai';
+export { chooseSuit, createAgent, createEasyAgent, createHardAgent, createMonteCarloAgent, createNormalAgent, createPersonalityAgent, createRandomAgent, DEFAULT_ITERATIONS, DEFAULT_TIME_BUDGET_MS, describeHintMove, describePokerHand, DIFFICULTIES, getAIMove, getHint, getLegalLanePlays, getMoveFeatures, isDifficulty, isPersonalityId, moveToAction, normalAgent, PERSONALITIES, scoreFeatures, suitAction } from './ai';
+export type { AgentFactory, MatchResult, RateStat, SimulationOptions, SimulationSummary } from './simulation';
+export { playMatch, runSimulation, summarizeMatches } from './simulation';
+export type { LanePreview } from './preview';
+export { previewLanePlay } from './preview';
+export type { PlayerView, PlayerViewOptions, SeatView } from './view';
+export { getOwnHand, getPlayerView, getSeatView, isPublicEvent } from './view';
+export type { MatchRecord, ReplayCursor } from './replay';
+export { createMatchRecord, createReplay, currentTurn, getReplayState, jumpTo, jumpToTurn, MATCH_RECORD_VERSION, parseMatch, recordAction, ReplayError, replayLength, replayMatch, serializeMatch, stepBack, stepForward, toMatchRecord } from './replay';
+export { assertInvariants, checkedGameReducer, findInvariantViolations, InvariantError } from './invariants';
+export type { SavedGame, SavedOpponent } from './save';
+export { createSave, parseSave, SAVE_VERSION, SaveError, serializeSave } from './save';
 export type { AIMove } from './ai';
-export { applySuitEffectsToLaneDamage, calculateLaneSuitEffects, getSuitEffectValue, isCardActive } from './suitEffects';
+export { applySuitEffectsToLaneDamage, calculateLaneSuitEffects, getSuitEffectType, getSuitEffectValue, isCardActive } from './suitEffects';
 
 
@@ -0,0 +1,89 @@
+/**
+ * State Invariant Tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GameState } from './types';
+import { assertInvariants, checkedGameReducer, findInvariantViolations } from './invariants';
+import type { GameAction } from './reducer';
+import { gameReducer } from './reducer';
+import { initializeNewGame } from './state';
+
+function startMain(): GameState {
+  const actions: GameAction[] = [
+    { type: 'SELECT_SUIT', player: 1, suit: 'clubs' },
+    { type: 'SELECT_SUIT', player: 2, suit: 'diamonds' },
+    { type: 'INITIAL_FLIP_STEP' },
+    { type: 'CONTINUE_FROM_FLIP' },
+  ];
+  return actions.reduce(gameReducer, initializeNewGame(8));
+}
+
+describe('findInvariantViolations', () => {
+  it('accepts a fresh game and a game in progress', () => {
+    expect(findInvariantViolations(initializeNewGame(8))).toEqual([]);
+    expect(findInvariantViolations(startMain())).toEqual([]);
+  });
+
+  it('reports a card held in two zones', () => {
+    const state = startMain();
+    const duplicate = state.player1.hand[0];
+    const broken = { ...state, discardPile: [...state.discardPile, duplicate] };
+    expect(findInvariantViolations(broken)).toEqual([`${duplicate.id} is in both the player 1 hand and the discard pile`]);
+  });
+
+  it('reports a card that went missing', () => {
+    const state = startMain();
+    const [lost, ...rest] = state.player2.deck;
+    expect(findInvariantViolations({ ...state, player2: { ...state.player2, deck: rest } })).toEqual([`missing ${lost.id}`]);
+  });
+
+  it('reports a lane side that goes down in value', () => {
+    const state = startMain();
+    const [first, second, ...hand] = state.player1.hand;
+    const cards = [{ ...first, rank: 9 as const }, { ...second, rank: 4 as const }];
+    const lanes = state.lanes.map(lane => lane.id === 'left' ? { ...lane, player1: { cards } } : lane);
+    expect(findInvariantViolations({ ...state, lanes, player1: { ...state.player1, hand } }))
+      .toEqual(["player 1's side of the left lane goes down in value"]);
+  });
+
+  it('reports a war flip left over in the main phase', () => {
+    const state = startMain();
+    const [player1Card, ...deck] = state.player1.deck;
+    const [player2Card, ...deck2] = state.player2.deck;
+    const broken: GameState = {
+      ...state,
+      player1: { ...state.player1, deck },
+      player2: { ...state.player2, deck: deck2 },
+      flipResult: { player1Card, player2Card, winner: 1, damage: 0 },
+    };
+    expect(findInvariantViolations(broken)).toEqual(['Main still holds a flip result']);
+  });
+});
+
+describe('checkedGameReducer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('logs the action that broke the state and carries on', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const state = startMain();
+    // The reducer carries a lost card along without noticing; the check does not
+    const broken = { ...state, discardPile: state.discardPile.slice(1) };
+    const action = { type: 'RESOLVE_LANE', laneId: 'left' } as const;
+    expect(checkedGameReducer(broken, action)).toEqual(gameReducer(broken, action));
+    expect(error).toHaveBeenCalledOnce();
+    expect(error.mock.calls[0][0]).toMatch(/^After RESOLVE_LANE: missing /);
+    expect(error.mock.calls[0][1]).toMatchObject({ action, violations: [expect.stringMatching(/^missing /)] });
+  });
+
+  it('leaves sound transitions alone', () => {
+    const error = vi.spyOn(console, 'error');
+    const state = startMain();
+    const action = { type: 'RESOLVE_LANE', laneId: 'left' } as const;
+    expect(checkedGameReducer(state, action)).toEqual(gameReducer(state, action));
+    expect(error).not.toHaveBeenCalled();
+    expect(() => assertInvariants(state)).not.toThrow();
+  });
+});
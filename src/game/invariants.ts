@@ -0,0 +1,137 @@
+/**
+ * State Invariants
+ *
+ * Checks that hold for every GameState the reducer can produce: each card of
+ * the deck sits in exactly one zone, lane sides are legal, and each phase has
+ * the shape the rest of the engine assumes. Dev builds run the checks after
+ * every dispatch through checkedGameReducer, so a broken transition is
+ * reported with the action that caused it instead of surfacing turns later.
+ * The report goes to the console rather than being thrown, so the board and
+ * the online host keep running.
+ */
+
+import type { Card, CurrentPlayer, GamePhase, GameState } from './types';
+import { cardValue, createDeck } from './deck';
+import type { GameAction } from './reducer';
+import { gameReducer } from './reducer';
+
+export class InvariantError extends Error {
+  violations: string[];
+
+  constructor(violations: string[], action: GameAction | null) {
+    super(`${action ? `After ${action.type}` : 'Game state'}: ${violations.join('; ')}`);
+    this.name = 'InvariantError';
+    this.violations = violations;
+  }
+}
+
+// Phases before any card has been dealt into a hand or lane this round
+const DEALING_PHASES: GamePhase[] = ['SuitSelection', 'InitialFlip', 'InitialFlipResult'];
+
+const SEATS: CurrentPlayer[] = [1, 2];
+
+// Every zone a card can be in, by name
+function cardZones(state: GameState): [string, Card[]][] {
+  const zones: [string, Card[]][] = [];
+  for (const seat of SEATS) {
+    const player = seat === 1 ? state.player1 : state.player2;
+    zones.push([`player ${seat} deck`, player.deck], [`player ${seat} hand`, player.hand]);
+  }
+  for (const lane of state.lanes) {
+    zones.push([`${lane.id} lane (player 1)`, lane.player1.cards], [`${lane.id} lane (player 2)`, lane.player2.cards]);
+  }
+  zones.push(['discard pile', state.discardPile]);
+  if (state.flipResult) zones.push(['war flip', [state.flipResult.player1Card, state.flipResult.player2Card]]);
+  return zones;
+}
+
+function checkCards(state: GameState): string[] {
+  const violations: string[] = [];
+  const seen = new Map<string, string>();
+  for (const [zone, cards] of cardZones(state)) {
+    for (const card of cards) {
+      const first = seen.get(card.id);
+      if (first) violations.push(`${card.id} is in both the ${first} and the ${zone}`);
+      else seen.set(card.id, zone);
+    }
+  }
+  const missing = createDeck(state.rules.jokerCount).filter(card => !seen.has(card.id));
+  if (missing.length > 0) violations.push(`missing ${missing.map(card => card.id).join(', ')}`);
+  return violations;
+}
+
+function checkLanes(state: GameState): string[] {
+  const violations: string[] = [];
+  for (const lane of state.lanes) {
+    for (const seat of SEATS) {
+      const { cards } = seat === 1 ? lane.player1 : lane.player2;
+      const side = `player ${seat}'s side of the ${lane.id} lane`;
+      if (cards.length > state.rules.maxCardsPerLane) violations.push(`${side} holds ${cards.length} cards`);
+      if (cards.some((card, i) => i > 0 && cardValue(card) < cardValue(cards[i - 1]))) violations.push(`${side} goes down in value`);
+    }
+  }
+  return violations;
+}
+
+function checkPhase(state: GameState): string[] {
+  const violations: string[] = [];
+  const { phase } = state;
+  const require = (holds: boolean, message: string) => {
+    if (!holds) violations.push(`${phase} ${message}`);
+  };
+
+  require((phase === 'Finished') === (state.winner !== null), phase === 'Finished' ? 'has no winner' : 'already has a winner');
+  require((phase === 'InitialFlipResult') === (state.flipResult !== null), phase === 'InitialFlipResult' ? 'has no flip result' : 'still holds a flip result');
+  require(phase === 'Main' || state.undoStack.length === 0, 'keeps undo snapshots');
+
+  if (phase !== 'SuitSelection') {
+    require(state.player1Suit !== null && state.player2Suit !== null, 'is missing a suit');
+  }
+  if (DEALING_PHASES.includes(phase)) {
+    require(state.player1.hand.length === 0 && state.player2.hand.length === 0, 'has cards in hand');
+    require(state.lanes.every(lane => lane.player1.cards.length === 0 && lane.player2.cards.length === 0), 'has cards in lanes');
+  }
+  if (phase === 'Main') {
+    require(state.player1.hp > 0 && state.player2.hp > 0, 'continues with a seat at 0 HP');
+    for (const pending of state.pendingResolutionLanes) {
+      const lane = state.lanes.find(l => l.id === pending.laneId);
+      const side = lane && (pending.filledByPlayer === 1 ? lane.player1 : lane.player2);
+      require(side?.cards.length === state.rules.maxCardsPerLane, `has the ${pending.laneId} lane pending without a full side`);
+      require(pending.turnsUntilResolution > 0, `has the ${pending.laneId} lane pending past its countdown`);
+    }
+  } else if (phase !== 'Finished' && phase !== 'SuddenDeath') {
+    // A game that ends mid-turn keeps its last pending lanes
+    require(state.pendingResolutionLanes.length === 0, 'has lanes pending resolution');
+  }
+  return violations;
+}
+
+/**
+ * Everything wrong with a state, one sentence per broken invariant; empty
+ * when the state is sound.
+ */
+export function findInvariantViolations(state: GameState): string[] {
+  return [...checkCards(state), ...checkLanes(state), ...checkPhase(state)];
+}
+
+/**
+ * Throw an InvariantError naming the action, if one is given, when the state
+ * breaks any invariant.
+ */
+export function assertInvariants(state: GameState, action: GameAction | null = null): void {
+  const violations = findInvariantViolations(state);
+  if (violations.length > 0) throw new InvariantError(violations, action);
+}
+
+/**
+ * gameReducer with the invariants checked after every change. Violations are
+ * logged with the action and the state goes on as the reducer returned it.
+ * Meant for dev builds; the checks walk the whole deck on each action.
+ */
+export function checkedGameReducer(state: GameState, action: GameAction): GameState {
+  const next = gameReducer(state, action);
+  if (next === state) return next;
+  const violations = findInvariantViolations(next);
+  if (violations.length > 0) console.error(new InvariantError(violations, action).message, { action, violations });
+  return next;
+}
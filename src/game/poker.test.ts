@@ -0,0 +1,139 @@
+/**
+ * Poker Bonus Evaluation Tests
+ *
+ * Every bonus category with and without jokers, the joker assignments shown
+ * to players, and the direct evaluation checked against the brute force on
+ * every lane the deck allows.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Card, Rank, Suit } from './types';
+import { createDeck, isJoker, JOKER_COUNT } from './deck';
+import type { HandClassification } from './poker';
+import { allLanes, calculateBaseSum, calculateLaneTotal, classifyLaneHand, classifyLaneHandBruteForce, describeJokerAssignment, evaluateLaneHand } from './poker';
+import type { PokerBonuses } from './rules';
+import { RULE_SETS } from './rules';
+
+const BONUSES = RULE_SETS['v1.3'].pokerBonuses; // pair 3, three 12, straight 10, flush 8, straight flush 20
+
+let nextId = 0;
+function card(rank: Rank, suit: Suit = rank === 'JOKER' ? 'joker' : 'hearts'): Card {
+  return { id: `test-${nextId++}`, rank, suit };
+}
+const joker = () => card('JOKER');
+
+describe('classifyLaneHand', () => {
+  it.each([
+    ['pair', [card(7, 'hearts'), card(7, 'clubs'), card(2, 'spades')]],
+    ['pair (two cards)', [card('Q', 'hearts'), card('Q', 'spades')]],
+    ['threeOfAKind', [card(9, 'hearts'), card(9, 'clubs'), card(9, 'spades')]],
+    ['straight', [card(4, 'hearts'), card(5, 'clubs'), card(6, 'spades')]],
+    ['straight (ace high)', [card('Q', 'hearts'), card('K', 'clubs'), card('A', 'spades')]],
+    ['flush', [card(2, 'diamonds'), card(9, 'diamonds'), card('K', 'diamonds')]],
+    ['straightFlush', [card(8, 'clubs'), card(9, 'clubs'), card(10, 'clubs')]],
+  ])('recognizes a %s', (name, cards) => {
+    const category = name.split(' ')[0];
+    expect(classifyLaneHand(cards, BONUSES)).toEqual({ category, bonus: BONUSES[category as keyof typeof BONUSES], jokers: [] });
+  });
+
+  it('finds nothing in unrelated cards', () => {
+    expect(classifyLaneHand([card(2, 'hearts'), card(7, 'clubs'), card('K', 'spades')], BONUSES).category).toBe('none');
+  });
+
+  it('does not wrap straights around the ace', () => {
+    expect(classifyLaneHand([card('K', 'hearts'), card('A', 'clubs'), card(2, 'spades')], BONUSES).category).toBe('none');
+  });
+
+  it('ignores empty, single-card and overfull lanes', () => {
+    expect(classifyLaneHand([], BONUSES).bonus).toBe(0);
+    expect(classifyLaneHand([joker()], BONUSES).bonus).toBe(0);
+    expect(classifyLaneHand([card(5), card(5), card(5), card(5)], BONUSES).bonus).toBe(0);
+  });
+
+  it('counts two cards as a pair at most', () => {
+    expect(classifyLaneHand([card(5, 'hearts'), card(6, 'hearts')], BONUSES).category).toBe('none');
+    expect(classifyLaneHand([joker(), card(6, 'hearts')], BONUSES).category).toBe('pair');
+  });
+
+  it('makes a joker complete a straight flush when it can', () => {
+    const result = classifyLaneHand([card(9, 'spades'), joker(), card('J', 'spades')], BONUSES);
+    expect(result.category).toBe('straightFlush');
+    expect(result.jokers).toEqual([expect.objectContaining({ rank: 10, suit: 'spades' })]);
+  });
+
+  it('makes two jokers complete a straight flush', () => {
+    expect(classifyLaneHand([joker(), card('A', 'hearts'), joker()], BONUSES).category).toBe('straightFlush');
+  });
+
+  it('settles for three of a kind when the suits cannot flush', () => {
+    const result = classifyLaneHand([card(4, 'hearts'), card(4, 'clubs'), joker()], BONUSES);
+    expect(result.category).toBe('threeOfAKind');
+    expect(result.jokers[0]).toMatchObject({ rank: 4 });
+    expect(['diamonds', 'spades']).toContain(result.jokers[0].suit);
+  });
+
+  it('never assigns a joker a card already in the lane', () => {
+    const result = classifyLaneHand([card(7, 'hearts'), joker(), joker()], BONUSES);
+    const assigned = result.jokers.map(j => `${j.rank}${j.suit}`);
+    expect(new Set([...assigned, '7hearts']).size).toBe(3);
+  });
+
+  it('follows the rule set bonuses when picking a hand', () => {
+    // Under v1.0 a straight and a flush pay the same; three of a kind pays more than both
+    const v1 = RULE_SETS['v1.0'].pokerBonuses;
+    const result = classifyLaneHand([card(6, 'hearts'), card(6, 'clubs'), joker()], v1);
+    expect(result).toMatchObject({ category: 'threeOfAKind', bonus: v1.threeOfAKind });
+  });
+
+});
+
+// Every joker gets a distinct standard card that is not already in the lane
+function isValidAssignment(lane: Card[], result: HandClassification): boolean {
+  const jokerIds = lane.filter(isJoker).map(c => c.id);
+  if (result.jokers.length !== jokerIds.length || result.jokers.some((j, i) => j.cardId !== jokerIds[i])) return false;
+  const cards = [...lane.filter(c => !isJoker(c)), ...result.jokers];
+  return new Set(cards.map(c => `${c.rank}${c.suit}`)).size === cards.length;
+}
+
+// The rule set presets, plus orderings no preset uses so every hand gets to be the best one
+const BONUS_TABLES: [string, PokerBonuses][] = [
+  ...Object.values(RULE_SETS).map(rules => [rules.id, rules.pokerBonuses] as [string, PokerBonuses]),
+  ['pair first', { pair: 30, threeOfAKind: 5, straight: 4, flush: 3, straightFlush: 2 }],
+  ['flush first', { pair: 1, threeOfAKind: 2, straight: 3, flush: 40, straightFlush: 10 }],
+  ['straight first', { pair: 1, threeOfAKind: 2, straight: 40, flush: 3, straightFlush: 10 }],
+  ['trips first', { pair: 1, threeOfAKind: 40, straight: 3, flush: 3, straightFlush: 10 }],
+];
+
+describe('classifyLaneHand on every lane', () => {
+  const lanes = allLanes(createDeck(JOKER_COUNT));
+
+  const label = (lane: Card[]) => lane.map(c => `${c.rank}${c.suit}`);
+
+  it.each(BONUS_TABLES)('agrees with the brute force under %s bonuses', (_name, bonuses) => {
+    const mismatches = lanes.filter(lane => {
+      const direct = classifyLaneHand(lane, bonuses);
+      const brute = classifyLaneHandBruteForce(lane, bonuses);
+      return direct.bonus !== brute.bonus || direct.category !== brute.category;
+    });
+    expect(mismatches.slice(0, 5).map(label)).toEqual([]);
+  }, 60_000);
+
+  // The brute force may copy a card; the assignment players see may not
+  it.each(BONUS_TABLES)('plays jokers as cards not already in the lane under %s bonuses', (_name, bonuses) => {
+    const repeats = lanes.filter(lane => !isValidAssignment(lane, classifyLaneHand(lane, bonuses)));
+    expect(repeats.slice(0, 5).map(label)).toEqual([]);
+  });
+});
+
+describe('lane totals', () => {
+  it('count a joker as 15 whatever it stands in for', () => {
+    const cards = [card(2, 'hearts'), joker(), card(4, 'hearts')];
+    expect(calculateBaseSum(cards)).toBe(21);
+    expect(evaluateLaneHand(cards, BONUSES)).toEqual({ hand: 'straightFlush', bonus: BONUSES.straightFlush });
+    expect(calculateLaneTotal(cards, BONUSES)).toBe(21 + BONUSES.straightFlush);
+  });
+
+  it('describe a joker by the card it plays as', () => {
+    expect(describeJokerAssignment({ cardId: 'card-52', rank: 9, suit: 'hearts' })).toBe('🃏 as 9♥');
+  });
+});
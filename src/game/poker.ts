@@ -3,18 +3,8 @@
  */
 
 import type { Card, StandardRank, StandardSuit } from './types';
-import { isJoker, rankValue, STANDARD_RANKS, STANDARD_SUITS } from './deck';
-
-// Rebalanced bonus values (v1.1)
-// - Pair reduced: very common with jokers
-// - Three of a kind reduced: easy with pair + joker
-// - Flush reduced: slightly easier than straights
-// - Straight flush reduced: less swingy but still best
-const BONUS_PAIR = 3;
-const BONUS_THREE_OF_A_KIND = 12;
-const BONUS_STRAIGHT = 10;
-const BONUS_FLUSH = 8;
-const BONUS_STRAIGHT_FLUSH = 20;
+import { cardToString, isJoker, rankValue, STANDARD_RANKS, STANDARD_SUITS } from './deck';
+import type { PokerBonuses } from './rules';
 
 export function isPair(ranks: StandardRank[]): boolean {
   if (ranks.length < 2) return false;
@@ -38,97 +28,247 @@ export function isFlush(suits: StandardSuit[]): boolean {
   return suits[0] === suits[1] && suits[1] === suits[2];
 }
 
-export function evaluateLaneBonus(cards: Card[]): number {
-  if (cards.length <= 1) return 0;
-  if (cards.length === 2) return evaluate2CardBonus(cards);
-  if (cards.length === 3) return evaluate3CardBonus(cards);
-  return 0;
+export type PokerHand = keyof PokerBonuses;
+
+// A poker hand, or 'none' when the cards form no bonus pattern
+export type HandCategory = PokerHand | 'none';
+
+// The standard card a joker stands in for
+export interface JokerAssignment {
+  cardId: string;
+  rank: StandardRank;
+  suit: StandardSuit;
+}
+
+export interface HandClassification {
+  category: HandCategory;
+  bonus: number;
+  jokers: JokerAssignment[]; // One entry per joker in the lane, empty without jokers
 }
 
-function evaluate2CardBonus(cards: Card[]): number {
-  const jokerCount = cards.filter(isJoker).length;
-  if (jokerCount >= 1) return BONUS_PAIR;
-  const nonJokers = cards.filter(c => !isJoker(c));
-  return nonJokers[0].rank === nonJokers[1].rank ? BONUS_PAIR : 0;
+export interface LaneHand {
+  hand: PokerHand | null; // The bonus pattern that applies, if any
+  bonus: number;
 }
 
-function evaluate3CardBonus(cards: Card[]): number {
-  const jokerCount = cards.filter(isJoker).length;
-  const nonJokers = cards.filter(c => !isJoker(c));
+const NO_CLASSIFICATION: HandClassification = { category: 'none', bonus: 0, jokers: [] };
 
-  if (jokerCount === 3) return BONUS_STRAIGHT_FLUSH;
-  if (jokerCount === 2) return evaluateWith2Jokers(nonJokers);
-  if (jokerCount === 1) return evaluateWith1Joker(nonJokers);
-  return evaluateFixedHand(cards);
+interface StandardCard {
+  rank: StandardRank;
+  suit: StandardSuit;
 }
 
-function evaluateFixedHand(cards: Card[]): number {
-  const ranks = cards.map(c => c.rank as StandardRank);
-  const suits = cards.map(c => c.suit as StandardSuit);
+// Strongest first; breaks ties between hands that pay the same bonus
+const HAND_PRECEDENCE: PokerHand[] = ['straightFlush', 'threeOfAKind', 'straight', 'flush', 'pair'];
 
-  const straight = isStraight(ranks);
-  const flush = isFlush(suits);
+function toStandardCards(cards: Card[]): StandardCard[] {
+  return cards.filter(c => !isJoker(c)).map(c => ({ rank: c.rank as StandardRank, suit: c.suit as StandardSuit }));
+}
 
-  if (straight && flush) return BONUS_STRAIGHT_FLUSH;
-  if (isThreeOfAKind(ranks)) return BONUS_THREE_OF_A_KIND;
-  if (straight) return BONUS_STRAIGHT;
-  if (flush) return BONUS_FLUSH;
-  if (isPair(ranks)) return BONUS_PAIR;
-  return 0;
-}
-
-function evaluateWith1Joker(nonJokers: Card[]): number {
-  let best = 0;
-  const r1 = nonJokers[0].rank as StandardRank;
-  const r2 = nonJokers[1].rank as StandardRank;
-  const s1 = nonJokers[0].suit as StandardSuit;
-  const s2 = nonJokers[1].suit as StandardSuit;
-
-  for (const jr of STANDARD_RANKS) {
-    for (const js of STANDARD_SUITS) {
-      const bonus = evaluateRanksAndSuits([r1, r2, jr], [s1, s2, js]);
-      if (bonus > best) best = bonus;
-      if (best === BONUS_STRAIGHT_FLUSH) return best;
+function classifyFixedHand(cards: StandardCard[], bonuses: PokerBonuses): HandClassification {
+  const category = classifyRanksAndSuits(cards.map(c => c.rank), cards.map(c => c.suit)) ?? 'none';
+  return { category, bonus: category === 'none' ? 0 : bonuses[category], jokers: [] };
+}
+
+/**
+ * Which poker pattern a lane side forms. Each joker stands in for whichever
+ * standard card gives the best-paying pattern; the assignment never repeats a
+ * card already in the lane, so it can be shown to players as played.
+ *
+ * Rather than trying every card for every joker, each hand is checked
+ * directly: the witnesses below build a joker assignment that makes exactly
+ * that hand, or report that none exists.
+ */
+export function classifyLaneHand(cards: Card[], bonuses: PokerBonuses): HandClassification {
+  if (cards.length < 2 || cards.length > 3) return NO_CLASSIFICATION;
+  const fixed = toStandardCards(cards);
+  if (fixed.length === cards.length) return classifyFixedHand(fixed, bonuses);
+
+  const jokers = cards.filter(isJoker);
+  let best: HandClassification | null = null;
+  for (const hand of HAND_PRECEDENCE) {
+    if (best && bonuses[hand] <= best.bonus) continue;
+    const assigned = HAND_WITNESSES[hand](fixed, cards.length);
+    if (assigned) {
+      best = { category: hand, bonus: bonuses[hand], jokers: jokers.map((joker, i) => ({ cardId: joker.id, ...assigned[i] })) };
     }
   }
-  return best;
+  return best ?? NO_CLASSIFICATION;
 }
 
-function evaluateWith2Jokers(nonJokers: Card[]): number {
-  let best = 0;
-  const r1 = nonJokers[0].rank as StandardRank;
-  const s1 = nonJokers[0].suit as StandardSuit;
+// Builds the cards the jokers stand in for so that the lane makes exactly one
+// hand, or null if no assignment can
+type HandWitness = (fixed: StandardCard[], size: number) => StandardCard[] | null;
 
-  for (const jr1 of STANDARD_RANKS) {
-    for (const js1 of STANDARD_SUITS) {
-      for (const jr2 of STANDARD_RANKS) {
-        for (const js2 of STANDARD_SUITS) {
-          const bonus = evaluateRanksAndSuits([r1, jr1, jr2], [s1, js1, js2]);
-          if (bonus > best) best = bonus;
-          if (best === BONUS_STRAIGHT_FLUSH) return best;
-        }
-      }
+const rankAt = (value: number) => STANDARD_RANKS[value - rankValue(STANDARD_RANKS[0])];
+
+// The suit every fixed card shares; any suit will do without fixed cards
+function commonSuit(fixed: StandardCard[]): StandardSuit | null {
+  const suit = fixed[0]?.suit ?? STANDARD_SUITS[0];
+  return fixed.every(c => c.suit === suit) ? suit : null;
+}
+
+function freeSuit(rank: StandardRank, used: StandardCard[]): StandardSuit {
+  return STANDARD_SUITS.find(suit => !used.some(c => c.rank === rank && c.suit === suit))!;
+}
+
+// The ranks missing from the lowest run of three that contains every fixed rank
+function missingStraightRanks(fixed: StandardCard[]): StandardRank[] | null {
+  const values = fixed.map(c => rankValue(c.rank));
+  if (new Set(values).size !== values.length) return null;
+  const highest = rankValue(STANDARD_RANKS[STANDARD_RANKS.length - 1]);
+  for (let start = rankValue(STANDARD_RANKS[0]); start + 2 <= highest; start++) {
+    if (values.every(v => v >= start && v <= start + 2)) {
+      return [start, start + 1, start + 2].filter(v => !values.includes(v)).map(rankAt);
     }
   }
+  return null;
+}
+
+const HAND_WITNESSES: Record<PokerHand, HandWitness> = {
+  straightFlush: (fixed, size) => {
+    const suit = commonSuit(fixed);
+    const missing = size === 3 && suit ? missingStraightRanks(fixed) : null;
+    return missing && missing.map(rank => ({ rank, suit: suit! }));
+  },
+
+  threeOfAKind: (fixed, size) => {
+    const rank = fixed[0]?.rank ?? STANDARD_RANKS[0];
+    if (size !== 3 || fixed.some(c => c.rank !== rank)) return null;
+    const cards = [...fixed];
+    while (cards.length < size) cards.push({ rank, suit: freeSuit(rank, cards) });
+    return cards.slice(fixed.length);
+  },
+
+  straight: (fixed, size) => {
+    const missing = size === 3 ? missingStraightRanks(fixed) : null;
+    if (!missing) return null;
+    // Break the flush with the first joker when the fixed cards share a suit
+    const suit = commonSuit(fixed);
+    const offSuit = STANDARD_SUITS.find(s => s !== suit)!;
+    return missing.map((rank, i) => ({ rank, suit: i === 0 && suit ? offSuit : STANDARD_SUITS[0] }));
+  },
+
+  flush: (fixed, size) => {
+    const suit = commonSuit(fixed);
+    if (size !== 3 || !suit) return null;
+    // Lowest unused ranks, skipping any that would complete a straight
+    const cards = [...fixed];
+    for (const rank of STANDARD_RANKS) {
+      if (cards.length === size) break;
+      if (cards.some(c => c.rank === rank)) continue;
+      const candidate = [...cards, { rank, suit }];
+      if (candidate.length === size && isStraight(candidate.map(c => c.rank))) continue;
+      cards.push({ rank, suit });
+    }
+    return cards.slice(fixed.length);
+  },
+
+  pair: (fixed, size) => {
+    // Always possible with a joker: pair the first fixed card's rank, and any
+    // joker left over takes another rank
+    const rank = fixed[0]?.rank ?? STANDARD_RANKS[0];
+    const cards = [...fixed];
+    while (cards.filter(c => c.rank === rank).length < 2) cards.push({ rank, suit: freeSuit(rank, cards) });
+    const other = STANDARD_RANKS.find(r => r !== rank)!;
+    while (cards.length < size) cards.push({ rank: other, suit: freeSuit(other, cards) });
+    return cards.slice(fixed.length);
+  },
+};
+
+/**
+ * Reference implementation of classifyLaneHand that tries every standard
+ * card for every joker, as lane bonuses were first evaluated: a joker may
+ * even copy a card already in the lane. Far slower; kept to check the direct
+ * evaluation's hand and bonus against (see scripts/bench-poker.ts). Its joker
+ * assignment may repeat a card, so it is not fit to show to players.
+ */
+export function classifyLaneHandBruteForce(cards: Card[], bonuses: PokerBonuses): HandClassification {
+  if (cards.length < 2 || cards.length > 3) return NO_CLASSIFICATION;
+  const jokers = cards.filter(isJoker);
+  const fixed = toStandardCards(cards);
+
+  // Two cards can only ever pair, so stop searching once one is found
+  const ceiling = cards.length === 2 ? bonuses.pair : Math.max(...Object.values(bonuses));
+  const assigned: StandardCard[] = [];
+  let best = NO_CLASSIFICATION;
+
+  // Depth-first over the jokers; returns true once the ceiling is reached
+  const search = (index: number): boolean => {
+    if (index === jokers.length) {
+      const hand = [...fixed, ...assigned];
+      const category = classifyRanksAndSuits(hand.map(c => c.rank), hand.map(c => c.suit)) ?? 'none';
+      const bonus = category === 'none' ? 0 : bonuses[category];
+      if (bonus > best.bonus || best === NO_CLASSIFICATION) {
+        best = { category, bonus, jokers: jokers.map((joker, i) => ({ cardId: joker.id, ...assigned[i] })) };
+      }
+      return best.bonus >= ceiling;
+    }
+    for (const rank of STANDARD_RANKS) {
+      for (const suit of STANDARD_SUITS) {
+        assigned.push({ rank, suit });
+        const done = search(index + 1);
+        assigned.pop();
+        if (done) return true;
+      }
+    }
+    return false;
+  };
+
+  search(0);
   return best;
 }
 
-function evaluateRanksAndSuits(ranks: StandardRank[], suits: StandardSuit[]): number {
+/**
+ * Every 2- and 3-card lane the deck allows, for checking and timing the
+ * evaluation exhaustively.
+ */
+export function allLanes(deck: Card[]): Card[][] {
+  const lanes: Card[][] = [];
+  for (let i = 0; i < deck.length; i++) {
+    for (let j = i + 1; j < deck.length; j++) {
+      lanes.push([deck[i], deck[j]]);
+      for (let k = j + 1; k < deck.length; k++) lanes.push([deck[i], deck[j], deck[k]]);
+    }
+  }
+  return lanes;
+}
+
+/**
+ * Which poker pattern a lane side forms, with jokers picking the best-paying one.
+ */
+export function evaluateLaneHand(cards: Card[], bonuses: PokerBonuses): LaneHand {
+  const { category, bonus } = classifyLaneHand(cards, bonuses);
+  return { hand: category === 'none' ? null : category, bonus };
+}
+
+export function evaluateLaneBonus(cards: Card[], bonuses: PokerBonuses): number {
+  return classifyLaneHand(cards, bonuses).bonus;
+}
+
+/**
+ * Player-facing note of what a joker was played as, e.g. "🃏 as 9♥".
+ */
+export function describeJokerAssignment({ cardId, rank, suit }: JokerAssignment): string {
+  return `${cardToString({ id: cardId, rank: 'JOKER', suit: 'joker' })} as ${cardToString({ id: cardId, rank, suit })}`;
+}
+
+function classifyRanksAndSuits(ranks: StandardRank[], suits: StandardSuit[]): PokerHand | null {
   const straight = isStraight(ranks);
   const flush = isFlush(suits);
-  if (straight && flush) return BONUS_STRAIGHT_FLUSH;
-  if (isThreeOfAKind(ranks)) return BONUS_THREE_OF_A_KIND;
-  if (straight) return BONUS_STRAIGHT;
-  if (flush) return BONUS_FLUSH;
-  if (isPair(ranks)) return BONUS_PAIR;
-  return 0;
+  if (straight && flush) return 'straightFlush';
+  if (isThreeOfAKind(ranks)) return 'threeOfAKind';
+  if (straight) return 'straight';
+  if (flush) return 'flush';
+  if (isPair(ranks)) return 'pair';
+  return null;
 }
 
 export function calculateBaseSum(cards: Card[]): number {
   return cards.reduce((sum, card) => sum + rankValue(card.rank), 0);
 }
 
-export function calculateLaneTotal(cards: Card[]): number {
-  return calculateBaseSum(cards) + evaluateLaneBonus(cards);
+export function calculateLaneTotal(cards: Card[], bonuses: PokerBonuses): number {
+  return calculateBaseSum(cards) + evaluateLaneBonus(cards, bonuses);
 }
 
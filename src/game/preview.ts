@@ -0,0 +1,54 @@
+/**
+ * Lane Play Preview
+ *
+ * What a lane would look like, and what it would deal, if the viewer played a
+ * card there and the lane resolved right away. Computed with computeLaneResolution,
+ * the same breakdown resolveLane applies, so the preview matches the result.
+ */
+
+import { findCardById } from './deck';
+import type { JokerAssignment, PokerHand } from './poker';
+import { computeLaneResolution, laneSuits } from './resolution';
+import { findLane } from './state';
+import type { CurrentPlayer, Lane, LaneId } from './types';
+import { canPlayCardToLane } from './validation';
+import type { PlayerView } from './view';
+import { getOwnHand } from './view';
+
+export interface LanePreview {
+  laneId: LaneId;
+  baseSum: number;               // Viewer's side after the play
+  pokerBonus: number;
+  hand: PokerHand | null;
+  jokers: JokerAssignment[];     // What each joker on the viewer's side would be played as
+  total: number;
+  opponentTotal: number;
+  winner: CurrentPlayer | null;  // null on a tie
+  damage: number;                // Dealt to the loser after suit effects
+  healing: number;               // Overflow healing for the loser
+}
+
+export function previewLanePlay(view: PlayerView, cardId: string, laneId: LaneId): LanePreview | null {
+  if (!canPlayCardToLane(view, view.viewer, cardId, laneId)) return null;
+
+  const card = findCardById(getOwnHand(view), cardId)!;
+  const lane = findLane(view.lanes, laneId)!;
+  const ownKey = view.viewer === 1 ? 'player1' : 'player2';
+  const played: Lane = { ...lane, [ownKey]: { cards: [...lane[ownKey].cards, card] } };
+  const resolution = computeLaneResolution(played, laneSuits(view), view.rules);
+  const own = resolution[ownKey];
+  const opponent = resolution[ownKey === 'player1' ? 'player2' : 'player1'];
+
+  return {
+    laneId,
+    baseSum: own.baseSum,
+    pokerBonus: own.pokerBonus,
+    hand: own.hand,
+    jokers: own.jokers,
+    total: own.total,
+    opponentTotal: opponent.total,
+    winner: resolution.winner,
+    damage: resolution.finalDamage,
+    healing: resolution.healingOverflow,
+  };
+}
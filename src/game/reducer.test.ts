@@ -0,0 +1,311 @@
+/**
+ * Game Reducer Tests
+ *
+ * Phase transitions, lane resolution timing, the end of a round and how the
+ * game ends. States are built from a seeded game and then adjusted directly
+ * where a scenario needs a particular board.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Card, CurrentPlayer, GameState, LaneId } from './types';
+import { cardValue, createDeck } from './deck';
+import { eventsOfType } from './events';
+import type { GameAction } from './reducer';
+import { gameReducer } from './reducer';
+import type { RuleSet } from './rules';
+import { RULE_SETS } from './rules';
+import { initializeNewGame } from './state';
+import { applyStagedPlays, validateAction, validateTakeBack } from './validation';
+
+function apply(state: GameState, ...actions: GameAction[]): GameState {
+  return actions.reduce(gameReducer, state);
+}
+
+// A seeded game with suits picked and the war flip played out
+function startMain(seed = 1, rules: RuleSet = RULE_SETS['v1.3']): GameState {
+  return apply(
+    initializeNewGame(seed, rules),
+    { type: 'SELECT_SUIT', player: 1, suit: 'hearts' },
+    { type: 'SELECT_SUIT', player: 2, suit: 'spades' },
+    { type: 'INITIAL_FLIP_STEP' },
+    { type: 'CONTINUE_FROM_FLIP' }
+  );
+}
+
+const seat = (state: GameState, player: CurrentPlayer) => player === 1 ? state.player1 : state.player2;
+const card = (id: string, rank: Card['rank'], suit: Card['suit'] = 'clubs'): Card => ({ id, rank, suit });
+
+// Put cards straight onto one side of a lane
+function withLane(state: GameState, laneId: LaneId, player: CurrentPlayer, cards: Card[]): GameState {
+  return {
+    ...state,
+    lanes: state.lanes.map(lane => lane.id !== laneId ? lane : player === 1 ? { ...lane, player1: { cards } } : { ...lane, player2: { cards } }),
+  };
+}
+
+function withHand(state: GameState, player: CurrentPlayer, hand: Card[]): GameState {
+  return player === 1 ? { ...state, player1: { ...state.player1, hand } } : { ...state, player2: { ...state.player2, hand } };
+}
+
+// End the current turn as if its cards had been played
+function endTurn(state: GameState): GameState {
+  return gameReducer({ ...state, cardsPlayedThisTurn: state.rules.cardsPerTurn }, { type: 'END_TURN', player: state.currentPlayer });
+}
+
+describe('phase transitions', () => {
+  it('waits for both suits before the war flip', () => {
+    const state = initializeNewGame(3);
+    const one = gameReducer(state, { type: 'SELECT_SUIT', player: 2, suit: 'clubs' });
+    expect(one.phase).toBe('SuitSelection');
+    const both = gameReducer(one, { type: 'SELECT_SUIT', player: 1, suit: 'diamonds' });
+    expect(both.phase).toBe('InitialFlip');
+    expect(eventsOfType(both.events, 'SuitsSelected')).toHaveLength(1);
+  });
+
+  it('refuses a suit the other seat took', () => {
+    const state = gameReducer(initializeNewGame(3), { type: 'SELECT_SUIT', player: 1, suit: 'clubs' });
+    expect(gameReducer(state, { type: 'SELECT_SUIT', player: 2, suit: 'clubs' })).toBe(state);
+  });
+
+  it('plays the war flip, damages the loser and hands the first turn to the winner', () => {
+    const rules = RULE_SETS['v1.3'];
+    const flipped = apply(
+      initializeNewGame(5, rules),
+      { type: 'SELECT_SUIT', player: 1, suit: 'hearts' },
+      { type: 'SELECT_SUIT', player: 2, suit: 'spades' },
+      { type: 'INITIAL_FLIP_STEP' }
+    );
+    expect(flipped.phase).toBe('InitialFlipResult');
+    const { winner, damage, player1Card, player2Card } = flipped.flipResult!;
+    expect(damage).toBe(Math.abs(cardValue(player1Card) - cardValue(player2Card)));
+
+    const main = gameReducer(flipped, { type: 'CONTINUE_FROM_FLIP' });
+    expect(main.phase).toBe('Main');
+    expect(main.flipResult).toBeNull();
+    expect(main.currentPlayer).toBe(winner);
+    expect(seat(main, winner === 1 ? 2 : 1).hp).toBe(rules.startingHp - damage);
+    expect(main.player1.hand).toHaveLength(rules.initialHandSize);
+    expect(main.player2.hand).toHaveLength(rules.initialHandSize);
+    expect(main.fieldControlSuit).toBe(winner === 1 ? 'hearts' : 'spades');
+  });
+
+  it('leaves the state untouched for actions out of turn or phase', () => {
+    const state = startMain();
+    const other: CurrentPlayer = state.currentPlayer === 1 ? 2 : 1;
+    const hand = seat(state, other).hand;
+    expect(gameReducer(state, { type: 'DISCARD_CARD', player: other, cardId: hand[0].id })).toBe(state);
+    expect(gameReducer(state, { type: 'END_TURN', player: state.currentPlayer })).toBe(state);
+    expect(gameReducer(state, { type: 'RESOLVE_END_OF_ROUND' })).toBe(state);
+    const setup = initializeNewGame(1);
+    expect(gameReducer(setup, { type: 'RESOLVE_LANE', laneId: 'left' })).toBe(setup);
+  });
+
+  it('leaves the state untouched for an action of no known type', () => {
+    const state = startMain();
+    expect(gameReducer(state, { type: 'WIN_GAME' } as unknown as GameAction)).toBe(state);
+  });
+
+  it('passes the turn and draws once the turn is played', () => {
+    const state = startMain();
+    const player = state.currentPlayer;
+    const next = endTurn(state);
+    expect(next.currentPlayer).toBe(player === 1 ? 2 : 1);
+    expect(next.cardsPlayedThisTurn).toBe(0);
+    expect(seat(next, player).hand).toHaveLength(seat(state, player).hand.length + state.rules.cardsToDraw);
+  });
+});
+
+describe('lane resolution', () => {
+  it('resolves at once when the second side of a lane fills', () => {
+    let state = startMain(1, RULE_SETS['v1.0']);
+    const player = state.currentPlayer;
+    const other: CurrentPlayer = player === 1 ? 2 : 1;
+    state = withLane(state, 'left', other, [card('x1', 2), card('x2', 3, 'hearts'), card('x3', 4, 'spades')]);
+    state = withLane(state, 'left', player, [card('y1', 'K'), card('y2', 'K')]);
+    state = withHand(state, player, [card('y3', 'A', 'hearts')]);
+
+    const next = gameReducer(state, { type: 'PLAY_CARD_TO_LANE', player, cardId: 'y3', laneId: 'left' });
+    const [resolved] = eventsOfType(next.events, 'LaneResolved');
+    expect(resolved).toMatchObject({ laneId: 'left', trigger: 'immediate', winner: player });
+    expect(next.lanes[0].player1.cards).toEqual([]);
+    expect(next.lanes[0].player2.cards).toEqual([]);
+    // 2+3+4 = 9 (a straight: +10) against K+K+A = 40 (a pair: +5)
+    expect(seat(next, other).hp).toBe(seat(state, other).hp - (45 - 19));
+  });
+
+  it('gives the opponent a two-turn window before a filled lane resolves', () => {
+    let state = startMain(2, RULE_SETS['v1.2']);
+    const filler = state.currentPlayer;
+    state = withLane(state, 'middle', filler, [card('f1', 5), card('f2', 6)]);
+    state = withHand(state, filler, [card('f3', 9)]);
+    state = gameReducer(state, { type: 'PLAY_CARD_TO_LANE', player: filler, cardId: 'f3', laneId: 'middle' });
+    expect(state.pendingResolutionLanes).toEqual([{ laneId: 'middle', filledByPlayer: filler, turnsUntilResolution: 2 }]);
+
+    state = endTurn(state); // The opponent's first turn to respond
+    expect(state.pendingResolutionLanes[0].turnsUntilResolution).toBe(2);
+    state = endTurn(state); // Back to the filler: the countdown ticks
+    expect(state.pendingResolutionLanes[0].turnsUntilResolution).toBe(1);
+    expect(eventsOfType(state.events, 'LaneResolved')).toHaveLength(0);
+    state = endTurn(state); // The opponent's second turn
+    state = endTurn(state); // The filler's turn starts with the lane resolving
+
+    expect(state.pendingResolutionLanes).toEqual([]);
+    expect(eventsOfType(state.events, 'LaneResolved')).toEqual([expect.objectContaining({ laneId: 'middle', trigger: 'pending', winner: filler })]);
+  });
+});
+
+describe('deck exhaustion', () => {
+  it('burns a deck too short to draw from and marks the final turn', () => {
+    let state = startMain();
+    const player = state.currentPlayer;
+    const leftover = seat(state, player).deck.slice(0, 2);
+    state = player === 1 ? { ...state, player1: { ...state.player1, deck: leftover } } : { ...state, player2: { ...state.player2, deck: leftover } };
+
+    const next = endTurn(state);
+    expect(seat(next, player).deck).toEqual([]);
+    expect(next.discardPile.slice(-2)).toEqual(leftover);
+    expect(eventsOfType(next.events, 'TurnEnded').at(-1)).toMatchObject({ cardsDrawn: 0, cardsBurned: 2, finalTurn: true });
+    expect(player === 1 ? next.player1FinalTurnDone : next.player2FinalTurnDone).toBe(true);
+  });
+
+  it('ends the round once both seats have had their final turn', () => {
+    let state = startMain();
+    state = { ...state, player1: { ...state.player1, deck: [] }, player2: { ...state.player2, deck: [] } };
+    state = endTurn(endTurn(state));
+    expect(state.phase).toBe('EndOfRoundResolving');
+    expect(state.pendingResolutionLanes).toEqual([]);
+  });
+
+  it('resolves every occupied lane at the end of the round and deals a new one', () => {
+    let state = startMain();
+    state = withLane(state, 'right', 1, [card('r1', 10)]);
+    state = { ...state, phase: 'EndOfRoundResolving' };
+    const next = gameReducer(state, { type: 'RESOLVE_END_OF_ROUND' });
+
+    expect(eventsOfType(next.events, 'LaneResolved')).toEqual([expect.objectContaining({ laneId: 'right', trigger: 'endOfRound', winner: 1 })]);
+    expect(next.phase).toBe('InitialFlip');
+    expect(next.roundNumber).toBe(state.roundNumber + 1);
+    expect(next.player1.deck).toHaveLength(state.rules.cardsPerPlayer);
+    expect(next.player1.hand).toEqual([]);
+  });
+});
+
+describe('game over', () => {
+  // Resolve the end of an empty round with the given HP
+  function endRoundAt(hp1: number, hp2: number): GameState {
+    const state = startMain();
+    return gameReducer(
+      { ...state, phase: 'EndOfRoundResolving', player1: { ...state.player1, hp: hp1 }, player2: { ...state.player2, hp: hp2 } },
+      { type: 'RESOLVE_END_OF_ROUND' }
+    );
+  }
+
+  it('ends the game when a seat drops to 0', () => {
+    expect(endRoundAt(0, 5)).toMatchObject({ phase: 'Finished', winner: 2 });
+    expect(endRoundAt(12, -1)).toMatchObject({ phase: 'Finished', winner: 1 });
+  });
+
+  it('gives the game to the higher HP when both seats are down', () => {
+    expect(endRoundAt(-3, -7)).toMatchObject({ phase: 'Finished', winner: 1 });
+    expect(endRoundAt(-9, 0)).toMatchObject({ phase: 'Finished', winner: 2 });
+  });
+
+  it('goes to sudden death on an exact tie', () => {
+    expect(endRoundAt(-4, -4).phase).toBe('SuddenDeath');
+    expect(endRoundAt(30, 30).phase).toBe('SuddenDeath');
+  });
+
+  it('lets a discard knock out the seat that made it', () => {
+    let state = startMain();
+    const player = state.currentPlayer;
+    state = player === 1 ? { ...state, player1: { ...state.player1, hp: 5 } } : { ...state, player2: { ...state.player2, hp: 5 } };
+    state = withHand(state, player, [card('k', 'K')]);
+    const next = gameReducer(state, { type: 'DISCARD_CARD', player, cardId: 'k' });
+    expect(next).toMatchObject({ phase: 'Finished', winner: player === 1 ? 2 : 1 });
+    expect(eventsOfType(next.events, 'GameWon')[0]).toMatchObject({ bySuddenDeath: false });
+  });
+
+  it('settles sudden death with a winner', () => {
+    const next = gameReducer(endRoundAt(20, 20), { type: 'SUDDEN_DEATH_STEP' });
+    expect(next.phase).toBe('Finished');
+    expect(next.winner).not.toBeNull();
+    expect(eventsOfType(next.events, 'GameWon')[0]).toMatchObject({ winner: next.winner, bySuddenDeath: true });
+  });
+
+  it('gathers every card into the sudden death deck without duplicating any', () => {
+    const next = gameReducer(endRoundAt(20, 20), { type: 'SUDDEN_DEATH_STEP' });
+    expect([next.player1.hand, next.player1.deck, next.player2.hand, next.player2.deck]).toEqual([[], [], [], []]);
+    expect(new Set(next.discardPile.map(c => c.id)).size).toBe(createDeck().length);
+  });
+});
+
+describe('turn staging and undo', () => {
+  it('commits a staged turn the same as playing it card by card', () => {
+    const state = startMain(4);
+    const player = state.currentPlayer;
+    const [a, b, c] = seat(state, player).hand;
+    const byCard = apply(
+      state,
+      { type: 'DISCARD_CARD', player, cardId: a.id },
+      { type: 'DISCARD_CARD', player, cardId: b.id },
+      { type: 'DISCARD_CARD', player, cardId: c.id },
+      { type: 'END_TURN', player }
+    );
+    const plays = [a, b, c].map(({ id }) => ({ cardId: id, laneId: null }));
+    expect(gameReducer(state, { type: 'COMMIT_TURN', player, plays })).toEqual(byCard);
+  });
+
+  it('refuses a staged turn that is short or repeats a card', () => {
+    const state = startMain(4);
+    const player = state.currentPlayer;
+    const [a, b] = seat(state, player).hand;
+    const plays = (ids: string[]) => ids.map(cardId => ({ cardId, laneId: null }));
+    expect(gameReducer(state, { type: 'COMMIT_TURN', player, plays: plays([a.id, b.id]) })).toBe(state);
+    expect(gameReducer(state, { type: 'COMMIT_TURN', player, plays: plays([a.id, b.id, a.id]) })).toBe(state);
+  });
+
+  it('keeps a planned card that fills a lane on the board until the turn is committed', () => {
+    const start = startMain(4);
+    const player = start.currentPlayer;
+    const other: CurrentPlayer = player === 1 ? 2 : 1;
+    let state = withLane(start, 'left', other, [card('o1', 2), card('o2', 3), card('o3', 4)]);
+    state = withLane(state, 'left', player, [card('p1', 5), card('p2', 6)]);
+    state = withHand(state, player, [card('p3', 7), card('p4', 8), card('p5', 9)]);
+
+    const planned = applyStagedPlays(state, player, [{ cardId: 'p3', laneId: 'left' }]);
+    expect(seat(planned, player).hand.map(c => c.id)).toEqual(['p4', 'p5']);
+    const left = planned.lanes[0];
+    expect((player === 1 ? left.player1 : left.player2).cards.map(c => c.id)).toEqual(['p1', 'p2', 'p3']);
+    expect((player === 1 ? left.player2 : left.player1).cards).toHaveLength(3);
+    expect(validateAction(planned, { type: 'PLAY_CARD_TO_LANE', player, cardId: 'p4', laneId: 'left' })).toEqual({ ok: false, reason: 'LANE_FULL' });
+
+    // Committed, the lane resolves first and takes the next card
+    const plays = [{ cardId: 'p3', laneId: 'left' as const }, { cardId: 'p4', laneId: 'left' as const }, { cardId: 'p5', laneId: null }];
+    expect(validateAction(state, { type: 'COMMIT_TURN', player, plays })).toEqual({ ok: true });
+  });
+
+  it('takes back a discard, penalty included, until the turn ends', () => {
+    const state = startMain(4);
+    const player = state.currentPlayer;
+    const cardId = seat(state, player).hand[0].id;
+    const discarded = gameReducer(state, { type: 'DISCARD_CARD', player, cardId });
+    const undone = gameReducer(discarded, { type: 'UNDO', player });
+    expect(seat(undone, player)).toEqual(seat(state, player));
+    expect(undone.undoStack).toEqual([]);
+    expect(eventsOfType(undone.events, 'PlayUndone')).toHaveLength(1);
+
+    const ended = endTurn(discarded);
+    expect(gameReducer(ended, { type: 'UNDO', player: ended.currentPlayer })).toBe(ended);
+  });
+
+  it('locks every play in under the ranked rules', () => {
+    const state = startMain(4, RULE_SETS.ranked);
+    const player = state.currentPlayer;
+    expect(validateTakeBack(state, player)).toEqual({ ok: false, reason: 'UNDO_DISABLED' });
+    expect(validateTakeBack(startMain(4), player)).toEqual({ ok: true });
+
+    const discarded = gameReducer(state, { type: 'DISCARD_CARD', player, cardId: seat(state, player).hand[0].id });
+    expect(discarded.undoStack).toEqual([]);
+    expect(gameReducer(discarded, { type: 'UNDO', player })).toBe(discarded);
+  });
+});
@@ -3,59 +3,189 @@
  */
 
 import type { Card, CurrentPlayer, FlipResult, GameState, Lane, LaneId, PendingLaneResolution, PlayerState, StandardSuit } from './types';
-import { cardValue, createDeck, findCardById, removeCardById, shuffle } from './deck';
-import { calculateLaneTotal } from './poker';
-import { applyDamage, createEmptyLanes, drawCards, findLane, initializeNewGame, isLaneReadyToResolve, startNewRound, updateLane } from './state';
-import { applySuitEffectsToLaneDamage, calculateLaneSuitEffects } from './suitEffects';
+import { cardValue, createDeck, findCardById, removeCardById, shuffle, STANDARD_SUITS } from './deck';
+import type { AgentProfile, LaneResolutionTrigger } from './events';
+import { appendEvents } from './events';
+import { computeLaneResolution, laneSuits } from './resolution';
+import { nextInt, nextSeed } from './rng';
+import { applyDamage, createEmptyLanes, drawCards, findLane, initializeNewGame, startNewRound, updateLane } from './state';
+import type { RuleSet } from './rules';
+import { isRuleSetLike } from './rules';
+import { validateAction } from './validation';
+
+// One card of a committed turn; a null lane discards it
+export interface TurnPlay {
+  cardId: string;
+  laneId: LaneId | null;
+}
 
 export type GameAction =
-  | { type: 'START_NEW_GAME' }
-  | { type: 'SELECT_SUIT'; suit: StandardSuit }
+  | { type: 'START_NEW_GAME'; seed?: number; rules?: RuleSet }
+  | { type: 'SELECT_SUIT'; player: CurrentPlayer; suit: StandardSuit; agent?: AgentProfile }
+  | { type: 'SELECT_RANDOM_SUIT'; player: CurrentPlayer; agent?: AgentProfile }
   | { type: 'INITIAL_FLIP_STEP' }
   | { type: 'CONTINUE_FROM_FLIP' }
-  | { type: 'PLAY_CARD_TO_LANE'; cardId: string; laneId: LaneId }
-  | { type: 'DISCARD_CARD'; cardId: string }
-  | { type: 'END_TURN' }
+  | { type: 'PLAY_CARD_TO_LANE'; player: CurrentPlayer; cardId: string; laneId: LaneId }
+  | { type: 'DISCARD_CARD'; player: CurrentPlayer; cardId: string }
+  | { type: 'END_TURN'; player: CurrentPlayer }
+  | { type: 'UNDO'; player: CurrentPlayer }
+  | { type: 'COMMIT_TURN'; player: CurrentPlayer; plays: TurnPlay[] }
   | { type: 'RESOLVE_LANE'; laneId: LaneId }
   | { type: 'RESOLVE_END_OF_ROUND' }
   | { type: 'SUDDEN_DEATH_STEP' };
 
-const INITIAL_HAND_SIZE = 5;
-const CARDS_TO_DRAW = 3;
-const CARDS_PER_TURN = 3;
-const MAX_CARDS_PER_LANE = 3;
+const LANE_IDS: unknown[] = ['left', 'middle', 'right'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isSeat = (value: unknown) => value === 1 || value === 2;
+const isOptionalAgent = (value: unknown) =>
+  value === undefined || (isObject(value) && typeof value.agent === 'string' && typeof value.personality === 'string'
+    && (value.difficulty === undefined || typeof value.difficulty === 'string'));
+const isTurnPlay = (value: unknown) =>
+  isObject(value) && typeof value.cardId === 'string' && (value.laneId === null || LANE_IDS.includes(value.laneId));
+
+/**
+ * Whether a payload from outside the app, a peer or a loaded replay, is a
+ * well-formed GameAction. The reducer trusts the fields it reads, so anything
+ * else must be turned away before it gets there.
+ */
+export function isGameAction(value: unknown): value is GameAction {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'START_NEW_GAME':
+      return (value.seed === undefined || Number.isInteger(value.seed)) && (value.rules === undefined || isRuleSetLike(value.rules));
+    case 'SELECT_SUIT':
+      return isSeat(value.player) && STANDARD_SUITS.includes(value.suit as StandardSuit) && isOptionalAgent(value.agent);
+    case 'SELECT_RANDOM_SUIT':
+      return isSeat(value.player) && isOptionalAgent(value.agent);
+    case 'PLAY_CARD_TO_LANE':
+      return isSeat(value.player) && typeof value.cardId === 'string' && LANE_IDS.includes(value.laneId);
+    case 'DISCARD_CARD':
+      return isSeat(value.player) && typeof value.cardId === 'string';
+    case 'END_TURN':
+    case 'UNDO':
+      return isSeat(value.player);
+    case 'COMMIT_TURN':
+      return isSeat(value.player) && Array.isArray(value.plays) && value.plays.every(isTurnPlay);
+    case 'RESOLVE_LANE':
+      return LANE_IDS.includes(value.laneId);
+    case 'INITIAL_FLIP_STEP':
+    case 'CONTINUE_FROM_FLIP':
+    case 'RESOLVE_END_OF_ROUND':
+    case 'SUDDEN_DEATH_STEP':
+      return true;
+    default:
+      return false;
+  }
+}
 
 const ALL_SUITS: StandardSuit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 
+/**
+ * Apply an action. Actions rejected by validateAction leave the state untouched,
+ * so the handlers below can assume their preconditions hold.
+ */
 export function gameReducer(state: GameState, action: GameAction): GameState {
+  if (!validateAction(state, action).ok) return state;
+  if (action.type === 'UNDO') return handleUndo(state);
+  return trackUndo(state, applyAction(state, action), action);
+}
+
+function applyAction(state: GameState, action: Exclude<GameAction, { type: 'UNDO' }>): GameState {
   switch (action.type) {
-    case 'START_NEW_GAME': return initializeNewGame();
-    case 'SELECT_SUIT': return handleSelectSuit(state, action.suit);
+    case 'START_NEW_GAME': return handleStartNewGame(state, action.seed, action.rules);
+    case 'SELECT_SUIT': return handleSelectSuit(tagAgent(state, action.player, action.agent), action.player, action.suit);
+    case 'SELECT_RANDOM_SUIT': return handleSelectRandomSuit(tagAgent(state, action.player, action.agent), action.player);
     case 'INITIAL_FLIP_STEP': return handleInitialFlipStep(state);
     case 'CONTINUE_FROM_FLIP': return handleContinueFromFlip(state);
     case 'PLAY_CARD_TO_LANE': return handlePlayCardToLane(state, action.cardId, action.laneId);
     case 'DISCARD_CARD': return handleDiscardCard(state, action.cardId);
     case 'END_TURN': return handleEndTurn(state);
-    case 'RESOLVE_LANE': return resolveLane(state, action.laneId);
+    case 'COMMIT_TURN': return handleCommitTurn(state, action.plays);
+    case 'RESOLVE_LANE': return resolveLane(state, action.laneId, 'immediate');
     case 'RESOLVE_END_OF_ROUND': return handleResolveEndOfRound(state);
     case 'SUDDEN_DEATH_STEP': return handleSuddenDeathStep(state);
     default: return state;
   }
 }
 
-function handleSelectSuit(state: GameState, playerSuit: StandardSuit): GameState {
-  if (state.phase !== 'SuitSelection') return state;
-  
-  // AI gets a random suit (excluding player's choice)
-  const availableSuits = ALL_SUITS.filter(s => s !== playerSuit);
-  const aiSuit = availableSuits[Math.floor(Math.random() * availableSuits.length)];
-  
-  return {
+/**
+ * Plays and discards can be taken back until the turn ends. One that resolves
+ * a lane or ends the game cannot, and neither can anything played before it.
+ */
+function trackUndo(before: GameState, after: GameState, action: GameAction): GameState {
+  const isPlay = action.type === 'PLAY_CARD_TO_LANE' || action.type === 'DISCARD_CARD';
+  const resolved = after.events.slice(before.events.length).some(event => event.type === 'LaneResolved');
+  if (isPlay && after.rules.allowUndo && after.phase === 'Main' && !resolved) {
+    return { ...after, undoStack: [...before.undoStack, { ...before, undoStack: [] }] };
+  }
+  return after.undoStack.length === 0 ? after : { ...after, undoStack: [] };
+}
+
+/**
+ * Restore the state from before the latest play, HP and pending lanes
+ * included. The log keeps a PlayUndone entry in place of the play.
+ */
+function handleUndo(state: GameState): GameState {
+  const previous = state.undoStack[state.undoStack.length - 1];
+  const player = state.currentPlayer;
+  const handBefore = (player === 1 ? previous.player1 : previous.player2).hand;
+  const handNow = (player === 1 ? state.player1 : state.player2).hand;
+  const card = handBefore.find(c => !findCardById(handNow, c.id))!;
+  return appendEvents(
+    { ...previous, undoStack: state.undoStack.slice(0, -1) },
+    { type: 'PlayUndone', player, card }
+  );
+}
+
+/**
+ * Start a fresh game. Without an explicit seed the next seed is derived from
+ * the current generator, so restarts stay reproducible from the original seed.
+ * The rule set carries over unless the action names a new one.
+ */
+function handleStartNewGame(state: GameState, seed: number | undefined, rules: RuleSet = state.rules): GameState {
+  return initializeNewGame(seed ?? nextSeed(state.rng).value, rules);
+}
+
+/**
+ * Suits not yet taken by either seat.
+ */
+export function getAvailableSuits(state: Pick<GameState, 'player1Suit' | 'player2Suit'>): StandardSuit[] {
+  return ALL_SUITS.filter(s => s !== state.player1Suit && s !== state.player2Suit);
+}
+
+/**
+ * An AI seat announces itself in the log as it picks its suit.
+ */
+function tagAgent(state: GameState, player: CurrentPlayer, agent: AgentProfile | undefined): GameState {
+  return agent ? appendEvents(state, { type: 'AgentSeated', player, ...agent }) : state;
+}
+
+/**
+ * Each seat picks its own suit (in either order); the flip starts once both have one.
+ */
+function handleSelectSuit(state: GameState, player: CurrentPlayer, suit: StandardSuit): GameState {
+  const newState: GameState = {
     ...state,
-    phase: 'InitialFlip',
-    player1Suit: playerSuit,
-    player2Suit: aiSuit,
+    player1Suit: player === 1 ? suit : state.player1Suit,
+    player2Suit: player === 2 ? suit : state.player2Suit,
   };
+
+  if (newState.player1Suit === null || newState.player2Suit === null) return newState;
+
+  return appendEvents(
+    { ...newState, phase: 'InitialFlip' },
+    { type: 'SuitsSelected', player1Suit: newState.player1Suit, player2Suit: newState.player2Suit }
+  );
+}
+
+/**
+ * Pick a random untaken suit for a seat (for agents without a suit preference).
+ */
+function handleSelectRandomSuit(state: GameState, player: CurrentPlayer): GameState {
+  const availableSuits = getAvailableSuits(state);
+  const pick = nextInt(state.rng, availableSuits.length);
+  return handleSelectSuit({ ...state, rng: pick.rng }, player, availableSuits[pick.value]);
 }
 
 /**
@@ -69,37 +199,55 @@ function checkGameOver(state: GameState): GameState | null {
   if (hp1 <= 0 || hp2 <= 0) {
     // At least one player is dead
     if (hp1 <= 0 && hp2 > 0) {
-      return { ...state, phase: 'Finished', winner: 2 };
+      return declareWinner(state, 2);
     }
     if (hp2 <= 0 && hp1 > 0) {
-      return { ...state, phase: 'Finished', winner: 1 };
+      return declareWinner(state, 1);
     }
     // Both dead - higher HP (less negative) wins
     if (hp1 > hp2) {
-      return { ...state, phase: 'Finished', winner: 1 };
+      return declareWinner(state, 1);
     }
     if (hp2 > hp1) {
-      return { ...state, phase: 'Finished', winner: 2 };
+      return declareWinner(state, 2);
     }
     // Exactly equal - sudden death
-    return { ...state, phase: 'SuddenDeath' };
+    return enterSuddenDeath(state);
   }
 
   return null; // Game continues
 }
 
-function handleInitialFlipStep(state: GameState): GameState {
-  if (state.phase !== 'InitialFlip') return state;
+function declareWinner(state: GameState, winner: CurrentPlayer, bySuddenDeath = false): GameState {
+  return appendEvents({ ...state, phase: 'Finished', winner }, {
+    type: 'GameWon',
+    winner,
+    player1Hp: state.player1.hp,
+    player2Hp: state.player2.hp,
+    bySuddenDeath,
+  });
+}
+
+function enterSuddenDeath(state: GameState): GameState {
+  return appendEvents({ ...state, phase: 'SuddenDeath' }, {
+    type: 'SuddenDeath',
+    player1Hp: state.player1.hp,
+    player2Hp: state.player2.hp,
+  });
+}
 
+function handleInitialFlipStep(state: GameState): GameState {
   let player1Deck = [...state.player1.deck];
   let player2Deck = [...state.player2.deck];
   let player1Card: Card | null = null;
   let player2Card: Card | null = null;
   let winner: CurrentPlayer | null = null;
   let damageToDeal = 0;
+  const tiedCards: Card[] = [];
 
   // Keep flipping until we have a winner (handles ties)
   while (winner === null && player1Deck.length > 0 && player2Deck.length > 0) {
+    if (player1Card && player2Card) tiedCards.push(player1Card, player2Card);
     player1Card = player1Deck[0];
     player2Card = player2Deck[0];
     player1Deck = player1Deck.slice(1);
@@ -122,20 +270,20 @@ function handleInitialFlipStep(state: GameState): GameState {
     damage: damageToDeal,
   };
 
-  // Update decks (cards removed) and store flip result, transition to result phase
+  // Update decks (cards removed) and store flip result, transition to result phase.
+  // Cards from tied flips go straight to the discard pile.
   return { 
     ...state, 
     phase: 'InitialFlipResult',
     player1: { ...state.player1, deck: player1Deck },
     player2: { ...state.player2, deck: player2Deck },
+    discardPile: [...state.discardPile, ...tiedCards],
     flipResult,
   };
 }
 
 function handleContinueFromFlip(state: GameState): GameState {
-  if (state.phase !== 'InitialFlipResult' || !state.flipResult) return state;
-
-  const { player1Card, player2Card, winner, damage } = state.flipResult;
+  const { player1Card, player2Card, winner, damage } = state.flipResult!;
   
   let player1 = { ...state.player1 };
   let player2 = { ...state.player2 };
@@ -154,14 +302,14 @@ function handleContinueFromFlip(state: GameState): GameState {
   const fieldControlSuit = winner === 1 ? state.player1Suit : state.player2Suit;
 
   // Check if someone died from the initial flip
-  const stateAfterDamage: GameState = {
+  const stateAfterDamage = appendEvents({
     ...state,
     player1,
     player2,
     discardPile,
     flipResult: null,
     fieldControlSuit,
-  };
+  }, { type: 'WarFlip', player1Card, player2Card, winner, damage, fieldControlSuit });
 
   const gameOver = checkGameOver(stateAfterDamage);
   if (gameOver) {
@@ -169,41 +317,25 @@ function handleContinueFromFlip(state: GameState): GameState {
   }
 
   // Game continues - draw cards and start main phase
-  player1 = drawCards(player1, INITIAL_HAND_SIZE);
-  player2 = drawCards(player2, INITIAL_HAND_SIZE);
+  player1 = drawCards(player1, state.rules.initialHandSize);
+  player2 = drawCards(player2, state.rules.initialHandSize);
 
   return { 
-    ...state, 
+    ...stateAfterDamage, 
     phase: 'Main', 
     player1, 
     player2, 
-    discardPile, 
     currentPlayer: winner, 
     cardsPlayedThisTurn: 0,
-    flipResult: null,
-    fieldControlSuit,
     pendingResolutionLanes: [],
   };
 }
 
 function handlePlayCardToLane(state: GameState, cardId: string, laneId: LaneId): GameState {
-  if (state.phase !== 'Main') return state;
-
   const currentPlayerState = state.currentPlayer === 1 ? state.player1 : state.player2;
-  const card = findCardById(currentPlayerState.hand, cardId);
-  if (!card) return state;
-
-  const lane = findLane(state.lanes, laneId);
-  if (!lane) return state;
-
+  const card = findCardById(currentPlayerState.hand, cardId)!;
+  const lane = findLane(state.lanes, laneId)!;
   const playerSide = state.currentPlayer === 1 ? lane.player1 : lane.player2;
-  const opponentSide = state.currentPlayer === 1 ? lane.player2 : lane.player1;
-  if (playerSide.cards.length >= MAX_CARDS_PER_LANE) return state;
-
-  if (playerSide.cards.length > 0) {
-    const lastCard = playerSide.cards[playerSide.cards.length - 1];
-    if (cardValue(card) < cardValue(lastCard)) return state;
-  }
 
   const newHand = removeCardById(currentPlayerState.hand, cardId);
   const updatedPlayerSide = { cards: [...playerSide.cards, card] };
@@ -214,24 +346,25 @@ function handlePlayCardToLane(state: GameState, cardId: string, laneId: LaneId):
   };
 
   const updatedPlayerState: PlayerState = { ...currentPlayerState, hand: newHand };
-  let newState: GameState = {
+  let newState = appendEvents({
     ...state,
     player1: state.currentPlayer === 1 ? updatedPlayerState : state.player1,
     player2: state.currentPlayer === 2 ? updatedPlayerState : state.player2,
     lanes: updateLane(state.lanes, updatedLane),
     cardsPlayedThisTurn: state.cardsPlayedThisTurn + 1,
-  };
+  }, { type: 'CardPlayed', player: state.currentPlayer, card, laneId });
 
-  // Check if this play fills the current player's side of the lane (3 cards)
+  // Check if this play fills the current player's side of the lane
+  const { maxCardsPerLane, pendingResolutionTurns } = state.rules;
   const laneAfterPlay = findLane(newState.lanes, laneId)!;
   const newPlayerSide = state.currentPlayer === 1 ? laneAfterPlay.player1 : laneAfterPlay.player2;
   const newOpponentSide = state.currentPlayer === 1 ? laneAfterPlay.player2 : laneAfterPlay.player1;
 
-  if (newPlayerSide.cards.length === MAX_CARDS_PER_LANE) {
+  if (newPlayerSide.cards.length === maxCardsPerLane) {
     // Current player just filled their side of the lane
-    if (newOpponentSide.cards.length === MAX_CARDS_PER_LANE) {
+    if (newOpponentSide.cards.length === maxCardsPerLane) {
       // Both sides full - resolve immediately
-      newState = resolveLane(newState, laneId);
+      newState = resolveLane(newState, laneId, 'immediate');
       
       // Remove from pending if it was there
       newState = {
@@ -244,13 +377,13 @@ function handlePlayCardToLane(state: GameState, cardId: string, laneId: LaneId):
       if (gameOver) {
         return gameOver;
       }
-    } else {
-      // Only current player has filled - add to pending (opponent gets one turn to respond)
+    } else if (pendingResolutionTurns > 0) {
+      // Only current player has filled - add to pending (opponent gets a response window)
       // But first check if this lane was already pending from opponent - if so, resolve now
       const existingPending = newState.pendingResolutionLanes.find(p => p.laneId === laneId);
       if (existingPending) {
         // This shouldn't happen normally, but handle it
-        newState = resolveLane(newState, laneId);
+        newState = resolveLane(newState, laneId, 'immediate');
         newState = {
           ...newState,
           pendingResolutionLanes: newState.pendingResolutionLanes.filter(p => p.laneId !== laneId),
@@ -260,16 +393,16 @@ function handlePlayCardToLane(state: GameState, cardId: string, laneId: LaneId):
           return gameOver;
         }
       } else {
-        // Add to pending with 2 turns until resolution
+        // Add to pending; the opponent gets pendingResolutionTurns turns to respond
         const newPending: PendingLaneResolution = {
           laneId,
           filledByPlayer: state.currentPlayer,
-          turnsUntilResolution: 2, // Opponent gets 2 turns to respond
+          turnsUntilResolution: pendingResolutionTurns,
         };
-        newState = {
+        newState = appendEvents({
           ...newState,
           pendingResolutionLanes: [...newState.pendingResolutionLanes, newPending],
-        };
+        }, { type: 'LanePending', ...newPending });
       }
     }
   }
@@ -278,23 +411,20 @@ function handlePlayCardToLane(state: GameState, cardId: string, laneId: LaneId):
 }
 
 function handleDiscardCard(state: GameState, cardId: string): GameState {
-  if (state.phase !== 'Main') return state;
-
   const currentPlayerState = state.currentPlayer === 1 ? state.player1 : state.player2;
-  const card = findCardById(currentPlayerState.hand, cardId);
-  if (!card) return state;
+  const card = findCardById(currentPlayerState.hand, cardId)!;
 
   const newHand = removeCardById(currentPlayerState.hand, cardId);
   const damage = cardValue(card);
   const updatedPlayerState = applyDamage({ ...currentPlayerState, hand: newHand }, damage);
 
-  const newState: GameState = {
+  const newState = appendEvents({
     ...state,
     player1: state.currentPlayer === 1 ? updatedPlayerState : state.player1,
     player2: state.currentPlayer === 2 ? updatedPlayerState : state.player2,
     discardPile: [...state.discardPile, card],
     cardsPlayedThisTurn: state.cardsPlayedThisTurn + 1,
-  };
+  }, { type: 'DiscardPenalty', player: state.currentPlayer, card, damage });
 
   // Check if player killed themselves by discarding
   const gameOver = checkGameOver(newState);
@@ -333,7 +463,7 @@ function processPendingLanesForPlayer(state: GameState, player: CurrentPlayer):
   
   // Resolve lanes that hit 0
   for (const pending of lanesToResolve) {
-    newState = resolveLane(newState, pending.laneId);
+    newState = resolveLane(newState, pending.laneId, 'pending');
     
     // Check if someone died
     const gameOver = checkGameOver(newState);
@@ -352,8 +482,6 @@ function processPendingLanesForPlayer(state: GameState, player: CurrentPlayer):
 }
 
 function handleEndTurn(state: GameState): GameState {
-  if (state.phase !== 'Main' || state.cardsPlayedThisTurn < CARDS_PER_TURN) return state;
-
   let player1 = { ...state.player1 };
   let player2 = { ...state.player2 };
   let player1FinalTurnDone = state.player1FinalTurnDone;
@@ -362,9 +490,12 @@ function handleEndTurn(state: GameState): GameState {
 
   const currentPlayer = state.currentPlayer;
   const playerState = currentPlayer === 1 ? player1 : player2;
+  const { cardsToDraw } = state.rules;
+  const cardsDrawn = playerState.deck.length >= cardsToDraw ? cardsToDraw : 0;
+  const cardsBurned = cardsDrawn === 0 ? playerState.deck.length : 0;
 
-  if (playerState.deck.length >= CARDS_TO_DRAW) {
-    const updated = drawCards(playerState, CARDS_TO_DRAW);
+  if (playerState.deck.length >= cardsToDraw) {
+    const updated = drawCards(playerState, cardsToDraw);
     if (currentPlayer === 1) player1 = updated; else player2 = updated;
   } else if (playerState.deck.length > 0) {
     discardPile = [...discardPile, ...playerState.deck];
@@ -376,9 +507,17 @@ function handleEndTurn(state: GameState): GameState {
     else player2FinalTurnDone = true;
   }
 
+  const stateAfterDraw = appendEvents(state, {
+    type: 'TurnEnded',
+    player: currentPlayer,
+    cardsDrawn,
+    cardsBurned,
+    finalTurn: currentPlayer === 1 ? player1FinalTurnDone : player2FinalTurnDone,
+  });
+
   if (player1FinalTurnDone && player2FinalTurnDone) {
     return { 
-      ...state, 
+      ...stateAfterDraw, 
       phase: 'EndOfRoundResolving', 
       player1, 
       player2, 
@@ -394,7 +533,7 @@ function handleEndTurn(state: GameState): GameState {
   const nextPlayer: CurrentPlayer = currentPlayer === 1 ? 2 : 1;
   
   let newState: GameState = { 
-    ...state, 
+    ...stateAfterDraw, 
     player1, 
     player2, 
     discardPile, 
@@ -416,74 +555,61 @@ function handleEndTurn(state: GameState): GameState {
   return newState;
 }
 
-function resolveLane(state: GameState, laneId: LaneId): GameState {
+/**
+ * Play a whole staged turn, in order, and end it. validateAction has already
+ * checked the sequence; it stops early only if a play ends the game.
+ */
+function handleCommitTurn(state: GameState, plays: TurnPlay[]): GameState {
+  let newState = state;
+  for (const { cardId, laneId } of plays) {
+    newState = laneId === null ? handleDiscardCard(newState, cardId) : handlePlayCardToLane(newState, cardId, laneId);
+    if (newState.phase !== 'Main') return newState;
+  }
+  return handleEndTurn(newState);
+}
+
+function resolveLane(state: GameState, laneId: LaneId, trigger: LaneResolutionTrigger): GameState {
   const lane = findLane(state.lanes, laneId);
   if (!lane) return state;
 
-  // Calculate base lane totals (card values + poker bonuses)
-  const p1Total = calculateLaneTotal(lane.player1.cards);
-  const p2Total = calculateLaneTotal(lane.player2.cards);
-
-  // Calculate suit effects for each player's active cards
-  const p1Effects = calculateLaneSuitEffects(lane.player1.cards, state.player1Suit);
-  const p2Effects = calculateLaneSuitEffects(lane.player2.cards, state.player2Suit);
+  const resolution = computeLaneResolution(lane, laneSuits(state), state.rules);
+  const { winner, finalDamage, healingOverflow } = resolution;
 
   let player1 = { ...state.player1 };
   let player2 = { ...state.player2 };
-
-  if (p1Total > p2Total) {
-    // Player 1 wins this lane
-    const baseDamage = p1Total - p2Total;
-    const { finalDamage, healingOverflow } = applySuitEffectsToLaneDamage(
-      baseDamage,
-      p1Effects.totalDamage,  // Winner's damage bonus
-      p2Effects.totalHealing  // Loser's healing mitigation
-    );
-    
-    // Apply damage to player 2
-    if (finalDamage > 0) {
-      player2 = applyDamage(player2, finalDamage);
-    }
-    // Apply overflow healing to player 2 (they mitigated more than the damage)
-    if (healingOverflow > 0) {
-      player2 = { ...player2, hp: player2.hp + healingOverflow };
-    }
-  } else if (p2Total > p1Total) {
-    // Player 2 wins this lane
-    const baseDamage = p2Total - p1Total;
-    const { finalDamage, healingOverflow } = applySuitEffectsToLaneDamage(
-      baseDamage,
-      p2Effects.totalDamage,  // Winner's damage bonus
-      p1Effects.totalHealing  // Loser's healing mitigation
-    );
-    
-    // Apply damage to player 1
-    if (finalDamage > 0) {
-      player1 = applyDamage(player1, finalDamage);
-    }
-    // Apply overflow healing to player 1 (they mitigated more than the damage)
-    if (healingOverflow > 0) {
-      player1 = { ...player1, hp: player1.hp + healingOverflow };
-    }
+  if (winner !== null) {
+    // The loser takes the damage, or heals if their mitigation exceeded it
+    let loser = winner === 1 ? player2 : player1;
+    if (finalDamage > 0) loser = applyDamage(loser, finalDamage);
+    if (healingOverflow > 0) loser = { ...loser, hp: loser.hp + healingOverflow };
+    if (winner === 1) player2 = loser;
+    else player1 = loser;
   }
   // If tied, no damage is dealt
 
   const laneCards = [...lane.player1.cards, ...lane.player2.cards];
   const clearedLane: Lane = { ...lane, player1: { cards: [] }, player2: { cards: [] } };
 
-  return { ...state, player1, player2, lanes: updateLane(state.lanes, clearedLane), discardPile: [...state.discardPile, ...laneCards] };
+  return appendEvents(
+    { ...state, player1, player2, lanes: updateLane(state.lanes, clearedLane), discardPile: [...state.discardPile, ...laneCards] },
+    { type: 'LaneResolved', trigger, ...resolution }
+  );
 }
 
 function handleResolveEndOfRound(state: GameState): GameState {
-  if (state.phase !== 'EndOfRoundResolving') return state;
-
   let newState = { ...state };
   for (const lane of newState.lanes) {
     if (lane.player1.cards.length > 0 || lane.player2.cards.length > 0) {
-      newState = resolveLane(newState, lane.id);
+      newState = resolveLane(newState, lane.id, 'endOfRound');
     }
   }
 
+  newState = appendEvents(newState, {
+    type: 'RoundEnded',
+    player1Hp: newState.player1.hp,
+    player2Hp: newState.player2.hp,
+  });
+
   // Check for game over
   const gameOver = checkGameOver(newState);
   if (gameOver) {
@@ -492,17 +618,20 @@ function handleResolveEndOfRound(state: GameState): GameState {
 
   // Both players alive - check for HP tie (sudden death)
   if (newState.player1.hp === newState.player2.hp) {
-    return { ...newState, phase: 'SuddenDeath' };
+    return enterSuddenDeath(newState);
   }
 
   // Continue to next round
   return startNewRound(newState);
 }
 
+/**
+ * Flip pairs from a reshuffled deck until one card beats the other. The deck
+ * is the same set of cards (ids included) as the ones in play, so every hand,
+ * deck and lane is gathered into it rather than left holding duplicates.
+ */
 function handleSuddenDeathStep(state: GameState): GameState {
-  if (state.phase !== 'SuddenDeath') return state;
-
-  const allCards = shuffle(createDeck());
+  const { items: allCards, rng } = shuffle(createDeck(state.rules.jokerCount), state.rng);
   let index = 0;
   let winner: CurrentPlayer | null = null;
 
@@ -514,25 +643,12 @@ function handleSuddenDeathStep(state: GameState): GameState {
     else if (v2 > v1) winner = 2;
   }
 
-  return { ...state, phase: 'Finished', winner: winner || 1, lanes: createEmptyLanes(), discardPile: allCards };
-}
-
-export function canPlayCardToLane(state: GameState, cardId: string, laneId: LaneId): boolean {
-  if (state.phase !== 'Main') return false;
-  const currentPlayerState = state.currentPlayer === 1 ? state.player1 : state.player2;
-  const card = findCardById(currentPlayerState.hand, cardId);
-  if (!card) return false;
-  const lane = findLane(state.lanes, laneId);
-  if (!lane) return false;
-  const playerSide = state.currentPlayer === 1 ? lane.player1 : lane.player2;
-  if (playerSide.cards.length >= MAX_CARDS_PER_LANE) return false;
-  if (playerSide.cards.length > 0) {
-    const lastCard = playerSide.cards[playerSide.cards.length - 1];
-    if (cardValue(card) < cardValue(lastCard)) return false;
-  }
-  return true;
-}
-
-export function canEndTurn(state: GameState): boolean {
-  return state.phase === 'Main' && state.cardsPlayedThisTurn >= CARDS_PER_TURN;
+  return declareWinner({
+    ...state,
+    player1: { ...state.player1, deck: [], hand: [] },
+    player2: { ...state.player2, deck: [], hand: [] },
+    lanes: createEmptyLanes(),
+    discardPile: allCards,
+    rng,
+  }, winner || 1, true);
 }
@@ -0,0 +1,204 @@
+/**
+ * Match Recording and Replay
+ *
+ * A match is fully described by its initial seed and the ordered list of
+ * actions fed to gameReducer. Replaying rebuilds every intermediate GameState,
+ * which the replay cursor can then step through or jump around in.
+ */
+
+import type { GameState } from './types';
+import type { GameAction } from './reducer';
+import { gameReducer, isGameAction } from './reducer';
+import type { RuleSet } from './rules';
+import { DEFAULT_RULES, isRuleSetLike } from './rules';
+import { initializeNewGame } from './state';
+
+/**
+ * Version 2 names the acting seat on player-driven actions; version 3 records
+ * the rule set, and version 4 rule sets say whether undo is allowed. Older
+ * records are upgraded on load: before version 3 they were played under the
+ * v1.3 rules, and before version 4 undo was always allowed.
+ */
+export const MATCH_RECORD_VERSION = 4;
+
+export interface MatchRecord {
+  version: typeof MATCH_RECORD_VERSION;
+  seed: number;
+  rules: RuleSet;
+  actions: GameAction[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+export function createMatchRecord(seed: number, rules: RuleSet = DEFAULT_RULES): MatchRecord {
+  return { version: MATCH_RECORD_VERSION, seed, rules, actions: [] };
+}
+
+/**
+ * Append an action to the record. A seeded START_NEW_GAME begins a new match,
+ * so it starts a fresh record instead of being appended.
+ */
+export function recordAction(record: MatchRecord, action: GameAction): MatchRecord {
+  if (action.type === 'START_NEW_GAME' && action.seed !== undefined) {
+    return createMatchRecord(action.seed, action.rules ?? record.rules);
+  }
+  return { ...record, actions: [...record.actions, action] };
+}
+
+export function serializeMatch(record: MatchRecord): string {
+  return JSON.stringify(record);
+}
+
+/**
+ * Parse a serialized match. Throws ReplayError if the payload is not a match record.
+ */
+export function parseMatch(json: string): MatchRecord {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ReplayError('Replay is not valid JSON');
+  }
+  return toMatchRecord(data);
+}
+
+/**
+ * Check and upgrade an already-parsed match record. Throws ReplayError if it is malformed.
+ */
+export function toMatchRecord(data: unknown): MatchRecord {
+  if (typeof data !== 'object' || data === null) {
+    throw new ReplayError('Replay must be an object');
+  }
+  const candidate = data as Partial<Omit<MatchRecord, 'version'>> & { version?: unknown };
+  if (candidate.version !== 1 && candidate.version !== 2 && candidate.version !== 3 && candidate.version !== MATCH_RECORD_VERSION) {
+    throw new ReplayError(`Unsupported replay version: ${String(candidate.version)}`);
+  }
+  if (typeof candidate.seed !== 'number' || !Number.isInteger(candidate.seed)) {
+    throw new ReplayError('Replay seed must be an integer');
+  }
+  if (!Array.isArray(candidate.actions) || !candidate.actions.every(isLegacyActionLike)) {
+    throw new ReplayError('Replay actions are malformed');
+  }
+
+  let rules = DEFAULT_RULES;
+  if (candidate.version >= 3) {
+    const recorded = candidate.version === 3 ? upgradeV3Rules(candidate.rules) : candidate.rules;
+    if (!isRuleSetLike(recorded)) throw new ReplayError('Replay rules are malformed');
+    rules = recorded;
+  }
+
+  const actions = candidate.version === 1 ? upgradeV1Actions(candidate.seed, candidate.actions) : candidate.actions;
+  if (!actions.every(isGameAction)) throw new ReplayError('Replay actions are malformed');
+  return { version: MATCH_RECORD_VERSION, seed: candidate.seed, rules, actions };
+}
+
+/**
+ * Version 1 actions carried no acting seat: card moves belonged to whoever's
+ * turn it was, and SELECT_SUIT picked player 1's suit and a random one for the AI.
+ */
+function upgradeV1Actions(seed: number, actions: GameAction[]): GameAction[] {
+  const upgraded: GameAction[] = [];
+  let state = initializeNewGame(seed);
+  for (const legacy of actions as unknown as Record<string, unknown>[]) {
+    const player = state.currentPlayer;
+    const next: GameAction[] =
+      legacy.type === 'SELECT_SUIT'
+        ? [{ ...legacy, player: 1 } as GameAction, { type: 'SELECT_RANDOM_SUIT', player: 2 }]
+        : legacy.type === 'PLAY_CARD_TO_LANE' || legacy.type === 'DISCARD_CARD' || legacy.type === 'END_TURN'
+          ? [{ ...legacy, player } as GameAction]
+          : [legacy as unknown as GameAction];
+    for (const action of next) {
+      if (!isGameAction(action)) throw new ReplayError('Replay actions are malformed');
+      upgraded.push(action);
+      state = gameReducer(state, action);
+    }
+  }
+  return upgraded;
+}
+
+function upgradeV3Rules(rules: unknown): unknown {
+  return typeof rules === 'object' && rules !== null ? { allowUndo: true, ...rules } : rules;
+}
+
+// Version 1 actions lack their seat, so they are only checked in full once upgraded
+function isLegacyActionLike(value: unknown): value is GameAction {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/**
+ * Rebuild every state of the match. states[0] is the freshly dealt game,
+ * states[i] is the state after the i-th recorded action.
+ */
+export function replayMatch(record: MatchRecord): GameState[] {
+  const states: GameState[] = [initializeNewGame(record.seed, record.rules)];
+  for (const action of record.actions) {
+    states.push(gameReducer(states[states.length - 1], action));
+  }
+  return states;
+}
+
+export interface ReplayCursor {
+  record: MatchRecord;
+  states: GameState[];
+  index: number;      // Which state is currently shown
+  turnStarts: number[]; // State indices where a player's turn begins
+}
+
+export function createReplay(record: MatchRecord): ReplayCursor {
+  const states = replayMatch(record);
+  return { record, states, index: 0, turnStarts: findTurnStarts(record, states) };
+}
+
+function findTurnStarts(record: MatchRecord, states: GameState[]): number[] {
+  const starts: number[] = [];
+  record.actions.forEach((action, i) => {
+    const after = states[i + 1];
+    const endsTurn = action.type === 'END_TURN' || action.type === 'COMMIT_TURN';
+    if ((endsTurn || action.type === 'CONTINUE_FROM_FLIP') && after.phase === 'Main') {
+      starts.push(i + 1);
+    }
+  });
+  return starts;
+}
+
+export function getReplayState(cursor: ReplayCursor): GameState {
+  return cursor.states[cursor.index];
+}
+
+export function replayLength(cursor: ReplayCursor): number {
+  return cursor.states.length;
+}
+
+export function jumpTo(cursor: ReplayCursor, index: number): ReplayCursor {
+  const clamped = Math.max(0, Math.min(cursor.states.length - 1, index));
+  return clamped === cursor.index ? cursor : { ...cursor, index: clamped };
+}
+
+export function stepForward(cursor: ReplayCursor): ReplayCursor {
+  return jumpTo(cursor, cursor.index + 1);
+}
+
+export function stepBack(cursor: ReplayCursor): ReplayCursor {
+  return jumpTo(cursor, cursor.index - 1);
+}
+
+/**
+ * Turn number (1-based) shown at the cursor, or 0 before the first turn.
+ */
+export function currentTurn(cursor: ReplayCursor): number {
+  return cursor.turnStarts.filter(start => start <= cursor.index).length;
+}
+
+/**
+ * Jump to the start of the given turn (1-based).
+ */
+export function jumpToTurn(cursor: ReplayCursor, turn: number): ReplayCursor {
+  if (cursor.turnStarts.length === 0) return cursor;
+  const clamped = Math.max(1, Math.min(cursor.turnStarts.length, turn));
+  return jumpTo(cursor, cursor.turnStarts[clamped - 1]);
+}
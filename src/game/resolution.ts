@@ -0,0 +1,80 @@
+/**
+ * Lane Resolution Breakdown
+ *
+ * Pure computation of how a lane resolves: each side's cards, poker hand,
+ * totals and suit effects, who wins, and how the damage is built up. The
+ * reducer applies the result to HP, the LaneResolved event records it, and
+ * previews and the AI use it to look ahead without touching state.
+ */
+
+import type { JokerAssignment, PokerHand } from './poker';
+import { calculateBaseSum, classifyLaneHand } from './poker';
+import type { RuleSet } from './rules';
+import { applySuitEffectsToLaneDamage, calculateLaneSuitEffects } from './suitEffects';
+import type { Card, CurrentPlayer, GameState, Lane, LaneId, StandardSuit } from './types';
+
+export interface LaneSideSummary {
+  cards: Card[];
+  hand: PokerHand | null;
+  jokers: JokerAssignment[]; // What each joker was played as
+  baseSum: number;
+  pokerBonus: number;
+  total: number;       // baseSum + pokerBonus
+  suitDamage: number;  // Damage bonus from active cards, applied if this side wins
+  suitHealing: number; // Healing from active cards, applied if this side loses
+}
+
+export interface LaneResolution {
+  laneId: LaneId;
+  player1: LaneSideSummary;
+  player2: LaneSideSummary;
+  winner: CurrentPlayer | null; // null on a tie
+  baseDamage: number;           // Difference between the totals
+  damageBonus: number;          // Winner's suit damage
+  healingMitigation: number;    // Loser's suit healing
+  finalDamage: number;          // Dealt to the loser
+  healingOverflow: number;      // Healed by the loser when mitigation exceeds the damage
+}
+
+export type LaneSuits = Record<CurrentPlayer, StandardSuit | null>;
+
+function summarizeSide(cards: Card[], suit: StandardSuit | null, rules: RuleSet): LaneSideSummary {
+  const { category, bonus, jokers } = classifyLaneHand(cards, rules.pokerBonuses);
+  const baseSum = calculateBaseSum(cards);
+  const effects = calculateLaneSuitEffects(cards, suit, rules.suitEffects);
+  return {
+    cards,
+    hand: category === 'none' ? null : category,
+    jokers,
+    baseSum,
+    pokerBonus: bonus,
+    total: baseSum + bonus,
+    suitDamage: effects.totalDamage,
+    suitHealing: effects.totalHealing,
+  };
+}
+
+export function computeLaneResolution(lane: Lane, suits: LaneSuits, rules: RuleSet): LaneResolution {
+  const player1 = summarizeSide(lane.player1.cards, suits[1], rules);
+  const player2 = summarizeSide(lane.player2.cards, suits[2], rules);
+  const tie: LaneResolution = { laneId: lane.id, player1, player2, winner: null, baseDamage: 0, damageBonus: 0, healingMitigation: 0, finalDamage: 0, healingOverflow: 0 };
+  if (player1.total === player2.total) return tie;
+
+  const winner: CurrentPlayer = player1.total > player2.total ? 1 : 2;
+  const [winning, losing] = winner === 1 ? [player1, player2] : [player2, player1];
+  const baseDamage = winning.total - losing.total;
+  const { finalDamage, healingOverflow } = applySuitEffectsToLaneDamage(baseDamage, winning.suitDamage, losing.suitHealing);
+  return {
+    ...tie,
+    winner,
+    baseDamage,
+    damageBonus: winning.suitDamage,
+    healingMitigation: losing.suitHealing,
+    finalDamage,
+    healingOverflow,
+  };
+}
+
+export function laneSuits(state: Pick<GameState, 'player1Suit' | 'player2Suit'>): LaneSuits {
+  return { 1: state.player1Suit, 2: state.player2Suit };
+}
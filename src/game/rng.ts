@@ -0,0 +1,58 @@
+/**
+ * Seedable Deterministic RNG
+ *
+ * A counter-based mulberry32 generator. The whole generator state is a seed
+ * plus a cursor, so it can live inside GameState, be serialized, and be
+ * advanced purely by the reducer: the n-th draw from a seed is always the same.
+ */
+
+export interface RngState {
+  seed: number;
+  cursor: number;
+}
+
+const GOLDEN_GAMMA = 0x6d2b79f5;
+
+export function createRng(seed: number): RngState {
+  return { seed: seed >>> 0, cursor: 0 };
+}
+
+/**
+ * Pick a fresh seed for a brand new game.
+ * This is the only place the engine touches ambient randomness.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+function mulberry32(seed: number, cursor: number): number {
+  let t = (seed + Math.imul(cursor + 1, GOLDEN_GAMMA)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Draw a float in [0, 1) and return the advanced generator.
+ */
+export function nextFloat(rng: RngState): { value: number; rng: RngState } {
+  return {
+    value: mulberry32(rng.seed, rng.cursor),
+    rng: { seed: rng.seed, cursor: rng.cursor + 1 },
+  };
+}
+
+/**
+ * Draw an integer in [0, maxExclusive) and return the advanced generator.
+ */
+export function nextInt(rng: RngState, maxExclusive: number): { value: number; rng: RngState } {
+  const { value, rng: next } = nextFloat(rng);
+  return { value: Math.floor(value * maxExclusive), rng: next };
+}
+
+/**
+ * Derive a new seed from the generator (used when a game restarts itself).
+ */
+export function nextSeed(rng: RngState): { value: number; rng: RngState } {
+  return nextInt(rng, 0x100000000);
+}
@@ -0,0 +1,161 @@
+/**
+ * Rule Sets
+ *
+ * Every tunable rule value lives in a RuleSet stored on GameState, so balance
+ * variants can be played, simulated and replayed side by side. The presets
+ * follow the revisions described in docs/RULES.md.
+ */
+
+import { STANDARD_RANKS, STANDARD_SUITS } from './deck';
+
+export interface PokerBonuses {
+  pair: number;
+  threeOfAKind: number;
+  straight: number;
+  flush: number;
+  straightFlush: number;
+}
+
+// Suit effect values by rank tier
+export interface SuitEffectValues {
+  low: number;  // ranks 2-5
+  mid: number;  // ranks 6-10
+  high: number; // J, Q, K, Joker
+}
+
+export type RuleSetId = 'v1.0' | 'v1.1' | 'v1.2' | 'v1.3' | 'quick' | 'ranked';
+
+export interface RuleSet {
+  id: RuleSetId;
+  name: string;
+  startingHp: number;
+  cardsPerPlayer: number;        // Dealt to each personal deck; the rest of the deck starts in the discard pile
+  jokerCount: number;
+  initialHandSize: number;
+  cardsToDraw: number;
+  cardsPerTurn: number;
+  maxCardsPerLane: number;
+  pendingResolutionTurns: number; // 0 = a filled lane waits for the other side (pre-v1.2)
+  pokerBonuses: PokerBonuses;
+  suitEffects: SuitEffectValues | null; // null = no suit effects (pre-v1.3)
+  allowUndo: boolean;            // Plays may be taken back until the turn ends; off for ranked play
+}
+
+const V1_0: RuleSet = {
+  id: 'v1.0',
+  name: 'v1.0 (original bonuses)',
+  startingHp: 100,
+  cardsPerPlayer: 28,
+  jokerCount: 4,
+  initialHandSize: 5,
+  cardsToDraw: 3,
+  cardsPerTurn: 3,
+  maxCardsPerLane: 3,
+  pendingResolutionTurns: 0,
+  pokerBonuses: { pair: 5, threeOfAKind: 15, straight: 10, flush: 10, straightFlush: 25 },
+  suitEffects: null,
+  allowUndo: true,
+};
+
+// Pair, three of a kind, flush and straight flush reduced (see "Balance Notes (v1.1)")
+const V1_1: RuleSet = {
+  ...V1_0,
+  id: 'v1.1',
+  name: 'v1.1 (rebalanced bonuses)',
+  pokerBonuses: { pair: 3, threeOfAKind: 12, straight: 10, flush: 8, straightFlush: 20 },
+};
+
+// Filled lanes resolve after a two-turn response window
+const V1_2: RuleSet = {
+  ...V1_1,
+  id: 'v1.2',
+  name: 'v1.2 (delayed resolution)',
+  pendingResolutionTurns: 2,
+};
+
+// Active cards of the chosen suit add damage or healing
+const V1_3: RuleSet = {
+  ...V1_2,
+  id: 'v1.3',
+  name: 'v1.3 (suit effects)',
+  suitEffects: { low: 7, mid: 5, high: 3 },
+};
+
+// Shorter rounds and less HP for a fast game
+const QUICK: RuleSet = {
+  ...V1_3,
+  id: 'quick',
+  name: 'Quick match',
+  startingHp: 60,
+  cardsPerPlayer: 20,
+};
+
+// The v1.3 rules with every play final, for online and ranked games
+const RANKED: RuleSet = {
+  ...V1_3,
+  id: 'ranked',
+  name: 'Ranked (v1.3, no undo)',
+  allowUndo: false,
+};
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  'v1.0': V1_0,
+  'v1.1': V1_1,
+  'v1.2': V1_2,
+  'v1.3': V1_3,
+  quick: QUICK,
+  ranked: RANKED,
+};
+
+export const DEFAULT_RULES: RuleSet = V1_3;
+
+export const ONLINE_RULES: RuleSet = RANKED;
+
+export function getRuleSet(id: RuleSetId): RuleSet {
+  return RULE_SETS[id];
+}
+
+export function isRuleSetId(value: unknown): value is RuleSetId {
+  return typeof value === 'string' && Object.hasOwn(RULE_SETS, value);
+}
+
+const POKER_HANDS: (keyof PokerBonuses)[] = ['pair', 'threeOfAKind', 'straight', 'flush', 'straightFlush'];
+const EFFECT_TIERS: (keyof SuitEffectValues)[] = ['low', 'mid', 'high'];
+
+// Sanity limits for hand-edited rule sets; the presets stay well inside them
+const MAX_JOKERS = 8;
+const MAX_CARDS_PER_LANE = 3; // Poker hands are only scored for two or three cards
+const STANDARD_DECK_SIZE = STANDARD_SUITS.length * STANDARD_RANKS.length;
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isCountUpTo = (value: unknown, max: number) => isCount(value) && (value as number) <= max;
+const isPositive = (value: unknown) => isCount(value) && (value as number) > 0;
+
+function hasCounts(value: unknown, keys: string[]): boolean {
+  return typeof value === 'object' && value !== null && keys.every(key => isCount((value as Record<string, unknown>)[key]));
+}
+
+/**
+ * Check for a rule set read from a replay or save file: every field present
+ * with the right type and within what the engine can deal and score, so a
+ * hand-edited file can't start a game the engine can't play.
+ */
+export function isRuleSetLike(value: unknown): value is RuleSet {
+  if (typeof value !== 'object' || value === null) return false;
+  const rules = value as Record<keyof RuleSet, unknown>;
+  if (!isCountUpTo(rules.jokerCount, MAX_JOKERS)) return false;
+  // Both personal decks must fit in the deck
+  const perPlayer = Math.floor((STANDARD_DECK_SIZE + (rules.jokerCount as number)) / 2);
+  return isRuleSetId(rules.id)
+    && typeof rules.name === 'string'
+    && isPositive(rules.startingHp)
+    && isPositive(rules.cardsPerPlayer) && isCountUpTo(rules.cardsPerPlayer, perPlayer)
+    && isCountUpTo(rules.initialHandSize, rules.cardsPerPlayer as number)
+    && isCountUpTo(rules.cardsToDraw, rules.cardsPerPlayer as number)
+    && isPositive(rules.cardsPerTurn)
+    && isPositive(rules.maxCardsPerLane) && isCountUpTo(rules.maxCardsPerLane, MAX_CARDS_PER_LANE)
+    && isCount(rules.pendingResolutionTurns)
+    && hasCounts(rules.pokerBonuses, POKER_HANDS)
+    && (rules.suitEffects === null || hasCounts(rules.suitEffects, EFFECT_TIERS))
+    && typeof rules.allowUndo === 'boolean';
+}
@@ -0,0 +1,53 @@
+/**
+ * Saved Game Tests
+ *
+ * Saves are built from a seeded game, then tampered with to check that
+ * parseSave turns away anything the engine could not continue from.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GameState } from './types';
+import type { GameAction } from './reducer';
+import { gameReducer } from './reducer';
+import { createMatchRecord, recordAction } from './replay';
+import { RULE_SETS } from './rules';
+import { createSave, parseSave, SaveError, serializeSave } from './save';
+import { initializeNewGame } from './state';
+
+const ACTIONS: GameAction[] = [
+  { type: 'SELECT_SUIT', player: 1, suit: 'clubs' },
+  { type: 'SELECT_SUIT', player: 2, suit: 'diamonds' },
+  { type: 'INITIAL_FLIP_STEP' },
+  { type: 'CONTINUE_FROM_FLIP' },
+];
+
+// A game in its first Main turn, saved as JSON after the given change to its state
+function savedJson(tamper: (state: GameState) => GameState = state => state): string {
+  const state = ACTIONS.reduce(gameReducer, initializeNewGame(8));
+  const record = ACTIONS.reduce(recordAction, createMatchRecord(8));
+  return serializeSave(createSave(tamper(state), record, null, 0));
+}
+
+describe('saved games', () => {
+  it('load back the state they were made from', () => {
+    const json = savedJson();
+    expect(parseSave(json).state).toEqual(JSON.parse(json).state);
+  });
+
+  it.each<[string, (state: GameState) => GameState]>([
+    ['a lost card', state => ({ ...state, discardPile: state.discardPile.slice(1) })],
+    ['a duplicated card', state => ({ ...state, discardPile: [...state.discardPile, state.player1.hand[0]] })],
+    ['lanes out of order', state => ({ ...state, lanes: [...state.lanes].reverse() })],
+    ['more cards per player than the deck holds', state => ({ ...state, rules: { ...state.rules, cardsPerPlayer: 40 } })],
+    ['a lane wider than poker scores', state => ({ ...state, rules: { ...state.rules, maxCardsPerLane: 5 } })],
+    ['a negative poker bonus', state => ({ ...state, rules: { ...state.rules, pokerBonuses: { ...state.rules.pokerBonuses, pair: -3 } } })],
+  ])('refuse a state with %s', (_label, tamper) => {
+    expect(() => parseSave(savedJson(tamper))).toThrow(SaveError);
+  });
+
+  it('accept every preset rule set', () => {
+    for (const rules of Object.values(RULE_SETS)) {
+      expect(() => parseSave(savedJson(state => ({ ...state, rules })))).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Saved Games
+ *
+ * A save holds the complete GameState, RNG and event log included, so a match
+ * continues exactly where it stopped, plus the match record so it can still be
+ * replayed afterwards. Saves are versioned; older versions are upgraded step
+ * by step through MIGRATIONS, and anything malformed is rejected with a
+ * SaveError rather than loaded half-broken.
+ */
+
+import type { Difficulty, PersonalityId } from './ai';
+import { isDifficulty, isPersonalityId } from './ai';
+import { STANDARD_RANKS, STANDARD_SUITS } from './deck';
+import type { GameEventType } from './events';
+import { findInvariantViolations } from './invariants';
+import type { MatchRecord } from './replay';
+import { ReplayError, toMatchRecord } from './replay';
+import { isRuleSetLike } from './rules';
+import type { Card, GamePhase, GameState } from './types';
+
+/**
+ * Version 2 adds the undo stack to GameState and allowUndo to the rules.
+ */
+export const SAVE_VERSION = 2;
+
+// The AI the local player was up against; null for pass-and-play
+export interface SavedOpponent {
+  difficulty: Difficulty;
+  personality: PersonalityId;
+}
+
+export interface SavedGame {
+  version: typeof SAVE_VERSION;
+  savedAt: number; // Epoch milliseconds
+  state: GameState;
+  record: MatchRecord;
+  opponent: SavedOpponent | null;
+}
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveError';
+  }
+}
+
+type RawSave = Record<string, unknown>;
+
+/**
+ * Upgrades a save from the version it is keyed by to the next one.
+ */
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  1: save => {
+    const state = isObject(save.state) ? save.state : {};
+    const rules = isObject(state.rules) ? state.rules : {};
+    return { ...save, version: 2, state: { ...state, undoStack: [], rules: { ...rules, allowUndo: true } } };
+  },
+};
+
+export function createSave(
+  state: GameState,
+  record: MatchRecord,
+  opponent: SavedOpponent | null,
+  savedAt: number = Date.now()
+): SavedGame {
+  return { version: SAVE_VERSION, savedAt, state, record, opponent };
+}
+
+export function serializeSave(save: SavedGame): string {
+  return JSON.stringify(save);
+}
+
+/**
+ * Parse a serialized save, upgrading older versions. Throws SaveError if the
+ * payload is corrupt or from a version this build cannot read.
+ */
+export function parseSave(json: string): SavedGame {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveError('Saved game is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new SaveError('Saved game must be an object');
+  }
+
+  let save = data as RawSave;
+  if (typeof save.version !== 'number' || !Number.isInteger(save.version) || save.version < 1) {
+    throw new SaveError(`Unsupported save version: ${String(save.version)}`);
+  }
+  if (save.version > SAVE_VERSION) {
+    throw new SaveError(`Saved game is from a newer version (${save.version})`);
+  }
+  while ((save.version as number) < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version as number];
+    if (!migrate) throw new SaveError(`Saved game version ${String(save.version)} can no longer be loaded`);
+    save = migrate(save);
+  }
+
+  if (typeof save.savedAt !== 'number') throw new SaveError('Saved game timestamp is malformed');
+  if (!isGameStateLike(save.state)) throw new SaveError('Saved game state is corrupt');
+  // A well-formed state can still have lost or gained cards, or broken lanes
+  const violations = [save.state, ...save.state.undoStack].flatMap(findInvariantViolations);
+  if (violations.length > 0) throw new SaveError(`Saved game state is corrupt: ${violations[0]}`);
+  if (!isSavedOpponent(save.opponent)) throw new SaveError('Saved opponent is malformed');
+
+  let record: MatchRecord;
+  try {
+    record = toMatchRecord(save.record);
+  } catch (e) {
+    if (e instanceof ReplayError) throw new SaveError(`Saved match record is corrupt: ${e.message}`);
+    throw e;
+  }
+
+  return { version: SAVE_VERSION, savedAt: save.savedAt, state: save.state, record, opponent: save.opponent };
+}
+
+const PHASES: GamePhase[] = ['SuitSelection', 'InitialFlip', 'InitialFlipResult', 'Main', 'EndOfRoundResolving', 'SuddenDeath', 'Finished'];
+const LANE_IDS = ['left', 'middle', 'right'];
+const SUITS: unknown[] = [...STANDARD_SUITS, 'joker'];
+const RANKS: unknown[] = [...STANDARD_RANKS, 'JOKER'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isSeat = (value: unknown) => value === 1 || value === 2;
+const isSuitOrNull = (value: unknown) => value === null || STANDARD_SUITS.includes(value as never);
+const isSuit = (value: unknown) => value !== null && isSuitOrNull(value);
+const isLaneId = (value: unknown) => LANE_IDS.includes(value as string);
+const isNumber = (value: unknown) => typeof value === 'number';
+
+function isCardLike(value: unknown): value is Card {
+  return isObject(value) && typeof value.id === 'string' && SUITS.includes(value.suit) && RANKS.includes(value.rank);
+}
+
+const isCardList = (value: unknown) => Array.isArray(value) && value.every(isCardLike);
+
+function isPlayerLike(value: unknown): boolean {
+  return isObject(value) && typeof value.hp === 'number' && isCardList(value.deck) && isCardList(value.hand);
+}
+
+// Lanes are kept left to right
+function isLaneLike(value: unknown, index: number): boolean {
+  return isObject(value) && value.id === LANE_IDS[index]
+    && isObject(value.player1) && isCardList(value.player1.cards)
+    && isObject(value.player2) && isCardList(value.player2.cards);
+}
+
+function isPendingLike(value: unknown): boolean {
+  return isObject(value) && LANE_IDS.includes(value.laneId as string)
+    && isSeat(value.filledByPlayer) && isCount(value.turnsUntilResolution);
+}
+
+function isFlipLike(value: unknown): boolean {
+  return value === null || (isObject(value) && isCardLike(value.player1Card) && isCardLike(value.player2Card)
+    && isSeat(value.winner) && typeof value.damage === 'number');
+}
+
+function isLaneSideSummaryLike(value: unknown): boolean {
+  return isObject(value) && isCardList(value.cards) && (value.hand === null || typeof value.hand === 'string')
+    && Array.isArray(value.jokers) && isNumber(value.baseSum) && isNumber(value.pokerBonus) && isNumber(value.total)
+    && isNumber(value.suitDamage) && isNumber(value.suitHealing);
+}
+
+// The fields each event type carries besides its type, seq and round
+const EVENT_FIELDS: Record<GameEventType, (event: Record<string, unknown>) => boolean> = {
+  GameStarted: e => isNumber(e.seed),
+  AgentSeated: e => isSeat(e.player) && typeof e.agent === 'string' && typeof e.personality === 'string',
+  SuitsSelected: e => isSuit(e.player1Suit) && isSuit(e.player2Suit),
+  RoundStarted: () => true,
+  WarFlip: e => isCardLike(e.player1Card) && isCardLike(e.player2Card) && isSeat(e.winner) && isNumber(e.damage)
+    && isSuitOrNull(e.fieldControlSuit),
+  CardPlayed: e => isSeat(e.player) && isCardLike(e.card) && isLaneId(e.laneId),
+  DiscardPenalty: e => isSeat(e.player) && isCardLike(e.card) && isNumber(e.damage),
+  PlayUndone: e => isSeat(e.player) && isCardLike(e.card),
+  LanePending: e => isLaneId(e.laneId) && isSeat(e.filledByPlayer) && isCount(e.turnsUntilResolution),
+  LaneResolved: e => isLaneId(e.laneId) && ['immediate', 'pending', 'endOfRound'].includes(e.trigger as string)
+    && isLaneSideSummaryLike(e.player1) && isLaneSideSummaryLike(e.player2) && (e.winner === null || isSeat(e.winner))
+    && [e.baseDamage, e.damageBonus, e.healingMitigation, e.finalDamage, e.healingOverflow].every(isNumber),
+  TurnEnded: e => isSeat(e.player) && isCount(e.cardsDrawn) && isCount(e.cardsBurned) && typeof e.finalTurn === 'boolean',
+  RoundEnded: e => isNumber(e.player1Hp) && isNumber(e.player2Hp),
+  SuddenDeath: e => isNumber(e.player1Hp) && isNumber(e.player2Hp),
+  GameWon: e => isSeat(e.winner) && isNumber(e.player1Hp) && isNumber(e.player2Hp) && typeof e.bySuddenDeath === 'boolean',
+};
+
+function isEventLike(value: unknown, index: number): boolean {
+  if (!isObject(value) || value.seq !== index || !isCount(value.round)) return false;
+  return typeof value.type === 'string' && Object.hasOwn(EVENT_FIELDS, value.type)
+    && EVENT_FIELDS[value.type as GameEventType](value);
+}
+
+function isGameStateLike(value: unknown): value is GameState {
+  if (!isObject(value)) return false;
+  const { rng, events } = value;
+  return PHASES.includes(value.phase as GamePhase)
+    && isPlayerLike(value.player1) && isPlayerLike(value.player2)
+    && Array.isArray(value.lanes) && value.lanes.length === LANE_IDS.length && value.lanes.every(isLaneLike)
+    && isCardList(value.discardPile)
+    && isSeat(value.currentPlayer)
+    && isCount(value.roundNumber)
+    && typeof value.player1FinalTurnDone === 'boolean' && typeof value.player2FinalTurnDone === 'boolean'
+    && isCount(value.cardsPlayedThisTurn)
+    && (value.winner === null || isSeat(value.winner))
+    && isSuitOrNull(value.player1Suit) && isSuitOrNull(value.player2Suit) && isSuitOrNull(value.fieldControlSuit)
+    && isFlipLike(value.flipResult)
+    && Array.isArray(value.pendingResolutionLanes) && value.pendingResolutionLanes.every(isPendingLike)
+    && isRuleSetLike(value.rules)
+    && isObject(rng) && isCount(rng.seed) && isCount(rng.cursor)
+    && Array.isArray(events) && events.every(isEventLike)
+    && Array.isArray(value.undoStack) && value.undoStack.every(isGameStateLike);
+}
+
+function isSavedOpponent(value: unknown): value is SavedOpponent | null {
+  return value === null || (isObject(value) && isDifficulty(value.difficulty) && isPersonalityId(value.personality));
+}
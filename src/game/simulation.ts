@@ -0,0 +1,205 @@
+/**
+ * Headless Match Simulation
+ *
+ * Plays complete matches between two agents through gameReducer, with no UI,
+ * and aggregates balance statistics from the event log. Each agent only ever
+ * sees its own PlayerView.
+ */
+
+import type { Agent } from './ai';
+import { moveToAction, suitAction } from './ai';
+import { eventsOfType } from './events';
+import type { PokerHand } from './poker';
+import type { GameAction } from './reducer';
+import { gameReducer } from './reducer';
+import type { RuleSet } from './rules';
+import { DEFAULT_RULES } from './rules';
+import { initializeNewGame } from './state';
+import type { CurrentPlayer, GameState, StandardSuit } from './types';
+import { canEndTurn } from './validation';
+import { getPlayerView } from './view';
+
+const POKER_HANDS: PokerHand[] = ['pair', 'threeOfAKind', 'straight', 'flush', 'straightFlush'];
+const SUITS: StandardSuit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+
+// Safety net against agents that stop making legal moves
+const MAX_ACTIONS_PER_MATCH = 20000;
+
+export interface MatchResult {
+  seed: number;
+  winner: CurrentPlayer | null; // null if the match stalled
+  suits: Record<CurrentPlayer, StandardSuit | null>;
+  rounds: number;
+  turns: number;
+  bySuddenDeath: boolean;
+  discards: number;
+  cardsPlayed: number; // Lane plays plus discards
+  lanesResolved: number;
+  pokerHands: Record<PokerHand, number>;
+}
+
+function applyOrThrow(state: GameState, action: GameAction): GameState {
+  const next = gameReducer(state, action);
+  if (next === state) throw new Error(`Simulation action rejected: ${action.type}`);
+  return next;
+}
+
+/**
+ * Play one match to completion. Seat 1 picks its suit first; agents without a
+ * suit preference get a random one from the match seed.
+ */
+export function playMatch(
+  agents: Record<CurrentPlayer, Agent>,
+  seed: number,
+  rules: RuleSet = DEFAULT_RULES
+): MatchResult {
+  let state = initializeNewGame(seed, rules);
+  state = applyOrThrow(state, suitAction(agents[1], getPlayerView(state, 1)));
+  state = applyOrThrow(state, suitAction(agents[2], getPlayerView(state, 2)));
+
+  let stalled = false;
+  for (let steps = 0; state.phase !== 'Finished'; steps++) {
+    if (steps >= MAX_ACTIONS_PER_MATCH) { stalled = true; break; }
+    state = step(state, agents);
+  }
+
+  return summarizeMatch(state, seed, stalled);
+}
+
+function step(state: GameState, agents: Record<CurrentPlayer, Agent>): GameState {
+  switch (state.phase) {
+    case 'InitialFlip': return applyOrThrow(state, { type: 'INITIAL_FLIP_STEP' });
+    case 'InitialFlipResult': return applyOrThrow(state, { type: 'CONTINUE_FROM_FLIP' });
+    case 'EndOfRoundResolving': return applyOrThrow(state, { type: 'RESOLVE_END_OF_ROUND' });
+    case 'SuddenDeath': return applyOrThrow(state, { type: 'SUDDEN_DEATH_STEP' });
+    case 'Main': {
+      const player = state.currentPlayer;
+      if (canEndTurn(state, player)) {
+        return applyOrThrow(state, { type: 'END_TURN', player });
+      }
+      const move = agents[player].chooseMove(getPlayerView(state, player));
+      return move ? gameReducer(state, moveToAction(move, player)) : state;
+    }
+    default: return state;
+  }
+}
+
+function summarizeMatch(state: GameState, seed: number, stalled: boolean): MatchResult {
+  const pokerHands = Object.fromEntries(POKER_HANDS.map(hand => [hand, 0])) as Record<PokerHand, number>;
+  const resolutions = eventsOfType(state.events, 'LaneResolved');
+  for (const lane of resolutions) {
+    for (const { hand } of [lane.player1, lane.player2]) {
+      if (hand) pokerHands[hand]++;
+    }
+  }
+
+  const discards = eventsOfType(state.events, 'DiscardPenalty').length;
+  const won = eventsOfType(state.events, 'GameWon')[0];
+  return {
+    seed,
+    winner: stalled ? null : state.winner,
+    suits: { 1: state.player1Suit, 2: state.player2Suit },
+    rounds: state.roundNumber,
+    turns: eventsOfType(state.events, 'TurnEnded').length,
+    bySuddenDeath: won?.bySuddenDeath ?? false,
+    discards,
+    cardsPlayed: discards + eventsOfType(state.events, 'CardPlayed').length,
+    lanesResolved: resolutions.length,
+    pokerHands,
+  };
+}
+
+export interface RateStat {
+  count: number;
+  rate: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  rules: RuleSet['id'];
+  agents: Record<CurrentPlayer, string>;
+  stalled: number;
+  stalledSeeds: number[]; // Matches cut off at the action cap, left out of every statistic below
+  seatWins: Record<CurrentPlayer, RateStat>;
+  suitWins: Record<StandardSuit, { games: number; wins: number; winRate: number }>;
+  averageRounds: number;
+  averageTurns: number;
+  suddenDeath: RateStat;
+  discards: { total: number; perGame: number; shareOfCardsPlayed: number };
+  lanesResolved: number;
+  pokerHands: Record<PokerHand, { count: number; perGame: number; perLaneSide: number }>;
+}
+
+const ratio = (count: number, total: number) => total === 0 ? 0 : count / total;
+
+export function summarizeMatches(
+  results: MatchResult[],
+  agentNames: Record<CurrentPlayer, string>,
+  rules: RuleSet
+): SimulationSummary {
+  // A stalled match stops partway, so its length and counts would skew every average
+  const finished = results.filter(r => r.winner !== null);
+  const games = finished.length;
+  const sum = (pick: (r: MatchResult) => number) => finished.reduce((total, r) => total + pick(r), 0);
+
+  const seatWins = (seat: CurrentPlayer): RateStat => {
+    const count = finished.filter(r => r.winner === seat).length;
+    return { count, rate: ratio(count, games) };
+  };
+
+  const suitWins = Object.fromEntries(SUITS.map(suit => {
+    const played = finished.filter(r => r.suits[1] === suit || r.suits[2] === suit);
+    const wins = played.filter(r => r.winner !== null && r.suits[r.winner] === suit).length;
+    return [suit, { games: played.length, wins, winRate: ratio(wins, played.length) }];
+  })) as SimulationSummary['suitWins'];
+
+  const lanesResolved = sum(r => r.lanesResolved);
+  const pokerHands = Object.fromEntries(POKER_HANDS.map(hand => {
+    const count = sum(r => r.pokerHands[hand]);
+    return [hand, { count, perGame: ratio(count, games), perLaneSide: ratio(count, lanesResolved * 2) }];
+  })) as SimulationSummary['pokerHands'];
+
+  const suddenDeaths = finished.filter(r => r.bySuddenDeath).length;
+  const discards = sum(r => r.discards);
+  const stalledSeeds = results.filter(r => r.winner === null).map(r => r.seed);
+
+  return {
+    games: results.length,
+    rules: rules.id,
+    agents: agentNames,
+    stalled: stalledSeeds.length,
+    stalledSeeds,
+    seatWins: { 1: seatWins(1), 2: seatWins(2) },
+    suitWins,
+    averageRounds: ratio(sum(r => r.rounds), games),
+    averageTurns: ratio(sum(r => r.turns), games),
+    suddenDeath: { count: suddenDeaths, rate: ratio(suddenDeaths, games) },
+    discards: { total: discards, perGame: ratio(discards, games), shareOfCardsPlayed: ratio(discards, sum(r => r.cardsPlayed)) },
+    lanesResolved,
+    pokerHands,
+  };
+}
+
+/**
+ * Builds the agent for one seat of one match. Every match gets new agents, so
+ * nothing an agent remembers carries over into the next game.
+ */
+export type AgentFactory = (matchSeed: number) => Agent;
+
+export interface SimulationOptions {
+  games: number;
+  seed: number; // Match i is played with seed + i
+  rules?: RuleSet;
+}
+
+export function runSimulation(
+  agents: Record<CurrentPlayer, AgentFactory>,
+  { games, seed, rules = DEFAULT_RULES }: SimulationOptions
+): SimulationSummary {
+  const results: MatchResult[] = [];
+  const names: Record<CurrentPlayer, string> = { 1: agents[1](seed).name, 2: agents[2](seed).name };
+  for (let i = 0; i < games; i++) {
+    results.push(playMatch({ 1: agents[1](seed + i), 2: agents[2](seed + i) }, seed + i, rules));
+  }
+  return summarizeMatches(results, names, rules);
+}
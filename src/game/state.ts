@@ -4,9 +4,11 @@
 
 import type { Card, GameState, Lane, LaneId, PlayerState } from './types';
 import { createDeck, shuffle } from './deck';
+import { appendEvents } from './events';
+import { createRng, createSeed } from './rng';
+import type { RuleSet } from './rules';
+import { DEFAULT_RULES } from './rules';
 
-const STARTING_HP = 100;
-const CARDS_PER_PLAYER = 28;
 const LANE_IDS: LaneId[] = ['left', 'middle', 'right'];
 
 function createEmptyLane(id: LaneId): Lane {
@@ -17,14 +19,15 @@ export function createEmptyLanes(): Lane[] {
   return LANE_IDS.map(createEmptyLane);
 }
 
-export function initializeNewGame(): GameState {
-  const deck = shuffle(createDeck());
+export function initializeNewGame(seed: number = createSeed(), rules: RuleSet = DEFAULT_RULES): GameState {
+  const { items: deck, rng } = shuffle(createDeck(rules.jokerCount), createRng(seed));
+  const perPlayer = rules.cardsPerPlayer;
   return {
     phase: 'SuitSelection',
-    player1: { hp: STARTING_HP, deck: deck.slice(0, CARDS_PER_PLAYER), hand: [] },
-    player2: { hp: STARTING_HP, deck: deck.slice(CARDS_PER_PLAYER, CARDS_PER_PLAYER * 2), hand: [] },
+    player1: { hp: rules.startingHp, deck: deck.slice(0, perPlayer), hand: [] },
+    player2: { hp: rules.startingHp, deck: deck.slice(perPlayer, perPlayer * 2), hand: [] },
     lanes: createEmptyLanes(),
-    discardPile: [],
+    discardPile: deck.slice(perPlayer * 2), // Undealt cards sit out the round
     currentPlayer: 1,
     roundNumber: 1,
     player1FinalTurnDone: false,
@@ -36,18 +39,23 @@ export function initializeNewGame(): GameState {
     flipResult: null,
     fieldControlSuit: null,
     pendingResolutionLanes: [],
+    rules,
+    rng,
+    events: [{ type: 'GameStarted', seed: rng.seed, seq: 0, round: 1 }],
+    undoStack: [],
   };
 }
 
 export function startNewRound(prevState: GameState): GameState {
   const allCards = collectAllCards(prevState);
-  const shuffledDeck = shuffle(allCards);
-  return {
+  const { items: shuffledDeck, rng } = shuffle(allCards, prevState.rng);
+  const perPlayer = prevState.rules.cardsPerPlayer;
+  const nextRound: GameState = {
     phase: 'InitialFlip',
-    player1: { hp: prevState.player1.hp, deck: shuffledDeck.slice(0, CARDS_PER_PLAYER), hand: [] },
-    player2: { hp: prevState.player2.hp, deck: shuffledDeck.slice(CARDS_PER_PLAYER, CARDS_PER_PLAYER * 2), hand: [] },
+    player1: { hp: prevState.player1.hp, deck: shuffledDeck.slice(0, perPlayer), hand: [] },
+    player2: { hp: prevState.player2.hp, deck: shuffledDeck.slice(perPlayer, perPlayer * 2), hand: [] },
     lanes: createEmptyLanes(),
-    discardPile: [],
+    discardPile: shuffledDeck.slice(perPlayer * 2),
     currentPlayer: 1,
     roundNumber: prevState.roundNumber + 1,
     player1FinalTurnDone: false,
@@ -59,7 +67,12 @@ export function startNewRound(prevState: GameState): GameState {
     flipResult: null,
     fieldControlSuit: null, // Reset for new flip
     pendingResolutionLanes: [],
+    rules: prevState.rules,
+    rng,
+    events: prevState.events,
+    undoStack: [],
   };
+  return appendEvents(nextRound, { type: 'RoundStarted' });
 }
 
 function collectAllCards(state: GameState): Card[] {
@@ -95,8 +108,8 @@ export function updateLane(lanes: Lane[], updatedLane: Lane): Lane[] {
   return lanes.map(lane => lane.id === updatedLane.id ? updatedLane : lane);
 }
 
-export function isLaneReadyToResolve(lane: Lane): boolean {
-  return lane.player1.cards.length === 3 && lane.player2.cards.length === 3;
+export function isLaneReadyToResolve(lane: Lane, rules: RuleSet): boolean {
+  return lane.player1.cards.length === rules.maxCardsPerLane && lane.player2.cards.length === rules.maxCardsPerLane;
 }
 
 
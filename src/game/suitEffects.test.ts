@@ -0,0 +1,64 @@
+/**
+ * Suit Effects Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { Card, Rank, Suit } from './types'
+import { RULE_SETS } from './rules'
+import { applySuitEffectsToLaneDamage, calculateLaneSuitEffects, getSuitEffectType, getSuitEffectValue, isCardActive } from './suitEffects'
+
+const VALUES = RULE_SETS['v1.3'].suitEffects! // low 7, mid 5, high 3
+
+const card = (rank: Rank, suit: Suit): Card => ({ id: `${rank}-${suit}`, rank, suit })
+
+describe('suit effects', () => {
+  it('split suits into damage and healing', () => {
+    expect(getSuitEffectType('diamonds')).toBe('damage')
+    expect(getSuitEffectType('spades')).toBe('damage')
+    expect(getSuitEffectType('hearts')).toBe('healing')
+    expect(getSuitEffectType('clubs')).toBe('healing')
+  })
+
+  it('only activate cards of the owner suit, and jokers', () => {
+    expect(isCardActive(card(5, 'hearts'), 'hearts')).toBe(true)
+    expect(isCardActive(card(5, 'clubs'), 'hearts')).toBe(false)
+    expect(isCardActive(card('JOKER', 'joker'), 'spades')).toBe(true)
+    expect(isCardActive(card('JOKER', 'joker'), null)).toBe(false)
+  })
+
+  it.each([
+    [2, VALUES.low], [5, VALUES.low],
+    [6, VALUES.mid], [10, VALUES.mid],
+    ['J', VALUES.high], ['K', VALUES.high], ['A', VALUES.high],
+  ] as [Rank, number][])('give a %s the tier value %i', (rank, value) => {
+    expect(getSuitEffectValue(card(rank, 'diamonds'), 'diamonds', VALUES)).toEqual({ damage: value, healing: 0 })
+    expect(getSuitEffectValue(card(rank, 'hearts'), 'hearts', VALUES)).toEqual({ damage: 0, healing: value })
+  })
+
+  it('put jokers in the high tier', () => {
+    expect(getSuitEffectValue(card('JOKER', 'joker'), 'clubs', VALUES)).toEqual({ damage: 0, healing: VALUES.high })
+  })
+
+  it('do nothing in rule sets without suit effects', () => {
+    expect(getSuitEffectValue(card(2, 'spades'), 'spades', null)).toEqual({ damage: 0, healing: 0 })
+  })
+
+  it('add up over a lane, skipping inactive cards', () => {
+    const lane = [card(3, 'spades'), card(8, 'spades'), card(8, 'hearts')]
+    expect(calculateLaneSuitEffects(lane, 'spades', VALUES)).toEqual({ totalDamage: VALUES.low + VALUES.mid, totalHealing: 0 })
+  })
+})
+
+describe('applySuitEffectsToLaneDamage', () => {
+  it('adds the winner bonus and subtracts the loser healing', () => {
+    expect(applySuitEffectsToLaneDamage(10, 5, 3)).toEqual({ finalDamage: 12, healingOverflow: 0 })
+  })
+
+  it('stops at zero damage when healing exactly cancels it', () => {
+    expect(applySuitEffectsToLaneDamage(4, 3, 7)).toEqual({ finalDamage: 0, healingOverflow: 0 })
+  })
+
+  it('turns healing beyond the damage into overflow', () => {
+    expect(applySuitEffectsToLaneDamage(2, 0, 9)).toEqual({ finalDamage: 0, healingOverflow: 7 })
+  })
+})
@@ -5,21 +5,16 @@
  * - Diamonds & Spades: Bonus damage (adds to damage dealt)
  * - Hearts & Clubs: Healing (reduces damage taken or heals if fully mitigated)
  * 
- * Effect values by card rank:
+ * Effect values by card rank come from the rule set (v1.3):
  * - Low (2-5): 7
  * - Mid (6-10): 5
  * - High (J, Q, K, Joker): 3
+ * Rule sets without suit effects (null) give every card no effect.
  */
 
 import type { Card, StandardSuit } from './types'
 import { cardValue } from './deck'
-
-// Effect values by rank tier
-const EFFECT_VALUES = {
-  low: 7,    // ranks 2-5
-  mid: 5,    // ranks 6-10
-  high: 3,   // J, Q, K, Joker
-}
+import type { SuitEffectValues } from './rules'
 
 // Damage suits add bonus damage
 const DAMAGE_SUITS: StandardSuit[] = ['diamonds', 'spades']
@@ -27,10 +22,17 @@ const DAMAGE_SUITS: StandardSuit[] = ['diamonds', 'spades']
 // Healing suits reduce damage or heal
 const HEALING_SUITS: StandardSuit[] = ['hearts', 'clubs']
 
+/**
+ * Whether a suit's active cards deal bonus damage or heal
+ */
+export function getSuitEffectType(suit: StandardSuit): 'damage' | 'healing' {
+  return DAMAGE_SUITS.includes(suit) ? 'damage' : 'healing'
+}
+
 /**
  * Get the effect tier for a card based on its rank
  */
-function getEffectTier(card: Card): 'low' | 'mid' | 'high' {
+function getEffectTier(card: Card): keyof SuitEffectValues {
   const value = cardValue(card)
   
   // Joker (15), King (13), Queen (12), Jack (11)
@@ -59,15 +61,16 @@ export function isCardActive(card: Card, ownerSuit: StandardSuit | null): boolea
  */
 export function getSuitEffectValue(
   card: Card, 
-  ownerSuit: StandardSuit | null
+  ownerSuit: StandardSuit | null,
+  values: SuitEffectValues | null
 ): { damage: number; healing: number } {
-  // Not active = no effect
-  if (!isCardActive(card, ownerSuit)) {
+  // Not active (or no suit effects in this rule set) = no effect
+  if (!values || !isCardActive(card, ownerSuit)) {
     return { damage: 0, healing: 0 }
   }
   
   const tier = getEffectTier(card)
-  const effectValue = EFFECT_VALUES[tier]
+  const effectValue = values[tier]
   
   // Determine effect type based on owner's suit
   if (ownerSuit && DAMAGE_SUITS.includes(ownerSuit)) {
@@ -87,13 +90,14 @@ export function getSuitEffectValue(
  */
 export function calculateLaneSuitEffects(
   cards: Card[], 
-  ownerSuit: StandardSuit | null
+  ownerSuit: StandardSuit | null,
+  values: SuitEffectValues | null
 ): { totalDamage: number; totalHealing: number } {
   let totalDamage = 0
   let totalHealing = 0
   
   for (const card of cards) {
-    const effect = getSuitEffectValue(card, ownerSuit)
+    const effect = getSuitEffectValue(card, ownerSuit, values)
     totalDamage += effect.damage
     totalHealing += effect.healing
   }
@@ -2,6 +2,10 @@
  * Core Types for War-Lanes Poker Game Engine
  */
 
+import type { GameEvent } from './events';
+import type { RngState } from './rng';
+import type { RuleSet } from './rules';
+
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades' | 'joker';
 export type Rank = 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 'J' | 'Q' | 'K' | 'A' | 'JOKER';
 export type StandardRank = 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 'J' | 'Q' | 'K' | 'A';
@@ -72,6 +76,10 @@ export interface GameState {
   flipResult: FlipResult | null;
   fieldControlSuit: StandardSuit | null;
   pendingResolutionLanes: PendingLaneResolution[];
+  rules: RuleSet;
+  rng: RngState; // Seed + cursor; every random draw advances the cursor
+  events: GameEvent[];
+  undoStack: GameState[]; // State before each play this turn that can still be taken back, oldest first
 }
 
 
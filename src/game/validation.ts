@@ -0,0 +1,252 @@
+/**
+ * Action Validation
+ *
+ * The single source of truth for whether a GameAction may be applied. The
+ * reducer refuses anything this rejects, and the AI, the UI and the online
+ * host use the same result to pick moves and explain refusals.
+ */
+
+import type { GameAction, TurnPlay } from './reducer';
+import type { Card, CurrentPlayer, GamePhase, GameState, Lane, LaneId } from './types';
+import { cardValue, findCardById } from './deck';
+import { findLane } from './state';
+
+export type RejectionReason =
+  | 'WRONG_PHASE'
+  | 'NOT_YOUR_TURN'
+  | 'CARD_NOT_IN_HAND'
+  | 'UNKNOWN_LANE'
+  | 'LANE_FULL'
+  | 'DESCENDING_VALUE'
+  | 'TURN_INCOMPLETE'
+  | 'TOO_MANY_PLAYS'
+  | 'SUIT_ALREADY_CHOSEN'
+  | 'SUIT_TAKEN'
+  | 'UNDO_DISABLED'
+  | 'NOTHING_TO_UNDO'
+  | 'UNKNOWN_ACTION';
+
+export type ValidationResult = { ok: true } | { ok: false; reason: RejectionReason };
+
+// GameState holds the undo snapshots themselves; a PlayerView only how many there are
+type UndoContext = Pick<GameState, 'undoStack'> | { undoDepth: number };
+
+/**
+ * The slice of state needed to validate an action. Both GameState and a
+ * PlayerView satisfy it; a hidden hand (null) belongs to the other seat.
+ */
+export type ValidationContext = Pick<
+  GameState,
+  'phase' | 'currentPlayer' | 'lanes' | 'cardsPlayedThisTurn' | 'player1Suit' | 'player2Suit' | 'flipResult' | 'rules'
+> & {
+  player1: { hand: Card[] | null };
+  player2: { hand: Card[] | null };
+} & UndoContext;
+
+const OK: ValidationResult = { ok: true };
+
+// Lanes only hold cards, and so only resolve, during play and the end-of-round settlement
+const LANE_RESOLVING_PHASES: GamePhase[] = ['Main', 'EndOfRoundResolving'];
+
+function reject(reason: RejectionReason): ValidationResult {
+  return { ok: false, reason };
+}
+
+export function validateAction(state: ValidationContext, action: GameAction): ValidationResult {
+  switch (action.type) {
+    case 'START_NEW_GAME':
+      return OK;
+    case 'SELECT_SUIT':
+    case 'SELECT_RANDOM_SUIT': {
+      if (state.phase !== 'SuitSelection') return reject('WRONG_PHASE');
+      const ownSuit = action.player === 1 ? state.player1Suit : state.player2Suit;
+      if (ownSuit !== null) return reject('SUIT_ALREADY_CHOSEN');
+      if (action.type === 'SELECT_SUIT' && (action.suit === state.player1Suit || action.suit === state.player2Suit)) {
+        return reject('SUIT_TAKEN');
+      }
+      return OK;
+    }
+    case 'INITIAL_FLIP_STEP':
+      return state.phase === 'InitialFlip' ? OK : reject('WRONG_PHASE');
+    case 'CONTINUE_FROM_FLIP':
+      return state.phase === 'InitialFlipResult' && state.flipResult ? OK : reject('WRONG_PHASE');
+    case 'PLAY_CARD_TO_LANE':
+      return validateLanePlay(state, action.player, action.cardId, action.laneId);
+    case 'DISCARD_CARD':
+      return validateCardInHand(state, action.player, action.cardId);
+    case 'END_TURN':
+      return validateEndTurn(state, action.player);
+    case 'UNDO':
+      return validateUndo(state, action.player);
+    case 'COMMIT_TURN':
+      return validateCommitTurn(state, action.player, action.plays);
+    case 'RESOLVE_LANE':
+      if (!LANE_RESOLVING_PHASES.includes(state.phase)) return reject('WRONG_PHASE');
+      return findLane(state.lanes, action.laneId) ? OK : reject('UNKNOWN_LANE');
+    case 'RESOLVE_END_OF_ROUND':
+      return state.phase === 'EndOfRoundResolving' ? OK : reject('WRONG_PHASE');
+    case 'SUDDEN_DEATH_STEP':
+      return state.phase === 'SuddenDeath' ? OK : reject('WRONG_PHASE');
+    default:
+      // Actions from outside the type system, such as an old replay, may name no known type
+      return reject('UNKNOWN_ACTION');
+  }
+}
+
+/**
+ * A turn ends once the required cards are played, or early if the hand runs out.
+ */
+function validateEndTurn(state: ValidationContext, player: CurrentPlayer): ValidationResult {
+  if (state.phase !== 'Main') return reject('WRONG_PHASE');
+  if (player !== state.currentPlayer) return reject('NOT_YOUR_TURN');
+  if (state.cardsPlayedThisTurn >= state.rules.cardsPerTurn) return OK;
+  const hand = player === 1 ? state.player1.hand : state.player2.hand;
+  return hand !== null && hand.length === 0 ? OK : reject('TURN_INCOMPLETE');
+}
+
+/**
+ * A committed turn must play out the rest of the turn: every remaining card
+ * the turn requires, or the whole hand if it runs short. Each play is checked
+ * against the board as the earlier plays leave it.
+ */
+function validateCommitTurn(state: ValidationContext, player: CurrentPlayer, plays: TurnPlay[]): ValidationResult {
+  if (state.phase !== 'Main') return reject('WRONG_PHASE');
+  if (player !== state.currentPlayer) return reject('NOT_YOUR_TURN');
+  const hand = player === 1 ? state.player1.hand : state.player2.hand;
+  if (hand === null) return reject('NOT_YOUR_TURN');
+  if (!Array.isArray(plays)) return reject('TURN_INCOMPLETE');
+
+  const required = Math.min(state.rules.cardsPerTurn - state.cardsPlayedThisTurn, hand.length);
+  if (plays.length < required) return reject('TURN_INCOMPLETE');
+  if (plays.length > required) return reject('TOO_MANY_PLAYS');
+
+  let staged = state;
+  for (const play of plays) {
+    const result = play.laneId === null
+      ? validateCardInHand(staged, player, play.cardId)
+      : validateLanePlay(staged, player, play.cardId, play.laneId);
+    if (!result.ok) return result;
+    staged = clearFilledLanes(applyStagedPlays(staged, player, [play]));
+  }
+  return OK;
+}
+
+// A lane both sides fill resolves at once, which leaves it empty for the next play
+function clearFilledLanes<T extends ValidationContext>(state: T): T {
+  const { maxCardsPerLane } = state.rules;
+  const isFilled = (lane: Lane) => lane.player1.cards.length === maxCardsPerLane && lane.player2.cards.length === maxCardsPerLane;
+  if (!state.lanes.some(isFilled)) return state;
+  return { ...state, lanes: state.lanes.map(lane => isFilled(lane) ? { ...lane, player1: { cards: [] }, player2: { cards: [] } } : lane) };
+}
+
+/**
+ * The board as it would look after the given plays, with every card where it
+ * was placed: nothing resolves, not even a lane both sides fill, so the player
+ * can still see and take back each planned card. Plays are assumed legal; the
+ * result is only fit for validation and previews.
+ */
+export function applyStagedPlays<T extends ValidationContext>(state: T, player: CurrentPlayer, plays: TurnPlay[]): T {
+  let hand = (player === 1 ? state.player1.hand : state.player2.hand) ?? [];
+  let lanes = state.lanes;
+  for (const { cardId, laneId } of plays) {
+    const card = findCardById(hand, cardId);
+    if (!card) continue;
+    hand = hand.filter(c => c.id !== cardId);
+    if (laneId === null) continue;
+    lanes = lanes.map(lane => {
+      if (lane.id !== laneId) return lane;
+      const cards = [...(player === 1 ? lane.player1 : lane.player2).cards, card];
+      return player === 1 ? { ...lane, player1: { cards } } : { ...lane, player2: { cards } };
+    });
+  }
+  const seat = player === 1 ? 'player1' : 'player2';
+  return {
+    ...state,
+    [seat]: { ...state[seat], hand },
+    lanes,
+    cardsPlayedThisTurn: state.cardsPlayedThisTurn + plays.length,
+  };
+}
+
+/**
+ * Whether the seat may take back a play this turn, planned or made. Rule sets
+ * without undo lock each card in as soon as it is placed.
+ */
+export function validateTakeBack(state: ValidationContext, player: CurrentPlayer): ValidationResult {
+  if (state.phase !== 'Main') return reject('WRONG_PHASE');
+  if (player !== state.currentPlayer) return reject('NOT_YOUR_TURN');
+  return state.rules.allowUndo ? OK : reject('UNDO_DISABLED');
+}
+
+function validateUndo(state: ValidationContext, player: CurrentPlayer): ValidationResult {
+  const allowed = validateTakeBack(state, player);
+  if (!allowed.ok) return allowed;
+  return getUndoDepth(state) > 0 ? OK : reject('NOTHING_TO_UNDO');
+}
+
+/**
+ * How many plays this turn can still be taken back.
+ */
+export function getUndoDepth(state: UndoContext): number {
+  return 'undoDepth' in state ? state.undoDepth : state.undoStack.length;
+}
+
+/**
+ * Card moves are only legal for the seat whose turn it is, from that seat's own hand.
+ */
+function validateCardInHand(state: ValidationContext, player: CurrentPlayer, cardId: string): ValidationResult {
+  if (state.phase !== 'Main') return reject('WRONG_PHASE');
+  if (player !== state.currentPlayer) return reject('NOT_YOUR_TURN');
+  const hand = player === 1 ? state.player1.hand : state.player2.hand;
+  if (hand === null) return reject('NOT_YOUR_TURN');
+  return findCardById(hand, cardId) ? OK : reject('CARD_NOT_IN_HAND');
+}
+
+function validateLanePlay(state: ValidationContext, player: CurrentPlayer, cardId: string, laneId: LaneId): ValidationResult {
+  const inHand = validateCardInHand(state, player, cardId);
+  if (!inHand.ok) return inHand;
+
+  const hand = (player === 1 ? state.player1.hand : state.player2.hand) ?? [];
+  const card = findCardById(hand, cardId)!;
+  const lane = findLane(state.lanes, laneId);
+  if (!lane) return reject('UNKNOWN_LANE');
+
+  const playerSide = player === 1 ? lane.player1 : lane.player2;
+  if (playerSide.cards.length >= state.rules.maxCardsPerLane) return reject('LANE_FULL');
+  if (playerSide.cards.length > 0) {
+    const lastCard = playerSide.cards[playerSide.cards.length - 1];
+    if (cardValue(card) < cardValue(lastCard)) return reject('DESCENDING_VALUE');
+  }
+  return OK;
+}
+
+export function canPlayCardToLane(state: ValidationContext, player: CurrentPlayer, cardId: string, laneId: LaneId): boolean {
+  return validateLanePlay(state, player, cardId, laneId).ok;
+}
+
+export function canEndTurn(state: ValidationContext, player: CurrentPlayer): boolean {
+  return validateAction(state, { type: 'END_TURN', player }).ok;
+}
+
+const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  WRONG_PHASE: "You can't do that right now",
+  NOT_YOUR_TURN: 'Not your turn',
+  CARD_NOT_IN_HAND: "That card isn't in your hand",
+  UNKNOWN_LANE: 'There is no such lane',
+  LANE_FULL: 'Your side of that lane is full',
+  DESCENDING_VALUE: 'Cards in a lane must not go down in value',
+  TURN_INCOMPLETE: 'Play or discard more cards before ending your turn',
+  TOO_MANY_PLAYS: 'That is more cards than your turn allows',
+  SUIT_ALREADY_CHOSEN: 'You already chose a suit',
+  SUIT_TAKEN: 'That suit is already taken',
+  UNDO_DISABLED: 'Undo is turned off for this game',
+  NOTHING_TO_UNDO: 'Nothing to undo this turn',
+  UNKNOWN_ACTION: "That isn't a move in this game",
+};
+
+/**
+ * Player-facing explanation of a rejection.
+ */
+export function describeRejection(reason: RejectionReason): string {
+  return REJECTION_MESSAGES[reason];
+}
@@ -0,0 +1,73 @@
+/**
+ * Per-Player Views of GameState
+ *
+ * A PlayerView is everything one seat is allowed to know: its own hand, the
+ * opponent's hand size, both deck sizes, the board, the discard pile, pending
+ * resolutions and the public event log. Deck order, the opponent's hand and
+ * the RNG state (which would reveal every future shuffle) are not included, and
+ * neither are undo snapshots, which hold both hands; only their count is.
+ *
+ * The AI and remote clients consume only this view.
+ */
+
+import type { GameEvent } from './events';
+import type { Card, CurrentPlayer, GameState, PlayerState } from './types';
+
+export interface SeatView {
+  hp: number;
+  hand: Card[] | null; // null when hidden from the viewer
+  handCount: number;
+  deckCount: number;
+}
+
+export interface PlayerView extends Omit<GameState, 'player1' | 'player2' | 'rng' | 'undoStack'> {
+  viewer: CurrentPlayer;
+  player1: SeatView;
+  player2: SeatView;
+  undoDepth: number; // Plays this turn that can still be taken back
+}
+
+export interface PlayerViewOptions {
+  revealOpponentHand?: boolean; // For replays and debugging only
+}
+
+function seatView(player: PlayerState, showHand: boolean): SeatView {
+  return {
+    hp: player.hp,
+    hand: showHand ? player.hand : null,
+    handCount: player.hand.length,
+    deckCount: player.deck.length,
+  };
+}
+
+/**
+ * Events that are safe to show every seat. GameStarted carries the seed,
+ * which would let a client reconstruct both decks.
+ */
+export function isPublicEvent(event: GameEvent): boolean {
+  return event.type !== 'GameStarted';
+}
+
+export function getPlayerView(state: GameState, player: CurrentPlayer, options: PlayerViewOptions = {}): PlayerView {
+  const { player1, player2, rng: _rng, undoStack, events, ...publicState } = state;
+  const revealAll = options.revealOpponentHand ?? false;
+  return {
+    ...publicState,
+    viewer: player,
+    player1: seatView(player1, player === 1 || revealAll),
+    player2: seatView(player2, player === 2 || revealAll),
+    events: events.filter(isPublicEvent),
+    undoDepth: undoStack.length,
+  };
+}
+
+export function getSeatView(view: PlayerView, seat: CurrentPlayer): SeatView {
+  return seat === 1 ? view.player1 : view.player2;
+}
+
+/**
+ * The viewer's own hand (always visible to them).
+ */
+export function getOwnHand(view: PlayerView): Card[] {
+  return getSeatView(view, view.viewer).hand ?? [];
+}
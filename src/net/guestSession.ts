@@ -0,0 +1,115 @@
+/**
+ * Guest Session
+ *
+ * Mirrors the host's state for seat 2 and forwards the guest's actions.
+ * If the link drops, the guest keeps retrying with backoff and resyncs from
+ * the host's full state once it gets back in.
+ */
+
+import type { Connection, Network } from './transport';
+import { createListeners, NetworkError } from './transport';
+import type { GameSession, SessionSnapshot } from './session';
+
+export interface GuestSessionOptions {
+  roomCode: string;
+  guestToken: string;
+  maxReconnectAttempts?: number;
+  reconnectDelayMs?: number;
+}
+
+const DEFAULT_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+
+export async function joinSession(network: Network, options: GuestSessionOptions): Promise<GameSession> {
+  const {
+    roomCode,
+    guestToken,
+    maxReconnectAttempts = DEFAULT_RECONNECT_ATTEMPTS,
+    reconnectDelayMs = DEFAULT_RECONNECT_DELAY_MS,
+  } = options;
+  const listeners = createListeners<[]>();
+
+  let connection: Connection | null = null;
+  let revision = -1;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let snapshot: SessionSnapshot = { view: null, status: 'waiting', lastRejection: null };
+
+  const update = (patch: Partial<SessionSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.emit();
+  };
+
+  const attach = (next: Connection) => {
+    connection = next;
+    next.onMessage(message => {
+      switch (message.kind) {
+        case 'welcome':
+          update({ status: 'connected' });
+          break;
+        case 'sync':
+          if (message.revision < revision) break;
+          revision = message.revision;
+          update({ view: message.view, lastRejection: null });
+          break;
+        case 'rejected':
+          update({ lastRejection: message.reason });
+          break;
+        case 'roomFull':
+          closed = true;
+          update({ status: 'disconnected', lastRejection: 'Room is full' });
+          break;
+      }
+    });
+    next.onClose(() => {
+      if (connection !== next) return;
+      connection = null;
+      if (!closed) scheduleReconnect(1);
+    });
+    next.send({ kind: 'hello', guestToken });
+  };
+
+  const scheduleReconnect = (attempt: number) => {
+    if (attempt > maxReconnectAttempts) {
+      update({ status: 'disconnected' });
+      return;
+    }
+    update({ status: 'reconnecting' });
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      if (closed) return;
+      try {
+        attach(await network.join(roomCode));
+      } catch {
+        scheduleReconnect(attempt + 1);
+      }
+    }, reconnectDelayMs * 2 ** (attempt - 1));
+  };
+
+  try {
+    attach(await network.join(roomCode));
+  } catch (error) {
+    throw error instanceof NetworkError ? error : new NetworkError(`Could not join room ${roomCode}`);
+  }
+
+  return {
+    role: 'guest',
+    seat: 2,
+    roomCode,
+    getSnapshot: () => snapshot,
+    subscribe: listeners.add,
+    dispatch(action) {
+      if (!connection || snapshot.status !== 'connected') {
+        update({ lastRejection: 'Not connected to host' });
+        return;
+      }
+      connection.send({ kind: 'action', action });
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      connection?.close();
+      listeners.clear();
+    },
+  };
+}
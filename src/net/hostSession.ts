@@ -0,0 +1,119 @@
+/**
+ * Host Session
+ *
+ * Owns the authoritative GameState, applies the host's and the guest's actions
+ * through gameReducer and pushes the guest's PlayerView after every change.
+ * The guest seat is bound to the first guest token that says hello, so the same
+ * guest can reconnect but nobody else can take the seat.
+ */
+
+import { checkedGameReducer } from '../game/invariants';
+import type { GameAction } from '../game/reducer';
+import { gameReducer, isGameAction } from '../game/reducer';
+import type { RuleSet } from '../game/rules';
+import { ONLINE_RULES } from '../game/rules';
+import { initializeNewGame } from '../game/state';
+import type { GameState } from '../game/types';
+import { getPlayerView } from '../game/view';
+import type { HostMessage } from './protocol';
+import type { GameSession, SessionSnapshot } from './session';
+import { getSeatRejection } from './session';
+import type { Connection, Network } from './transport';
+import { createListeners } from './transport';
+
+// Dev builds check the state invariants after every action
+const reduce = import.meta.env.DEV ? checkedGameReducer : gameReducer;
+
+export interface HostSessionOptions {
+  roomCode: string;
+  seed: number;
+  rules?: RuleSet; // The ranked rules, with undo off, unless given
+}
+
+export async function hostSession(network: Network, { roomCode, seed, rules = ONLINE_RULES }: HostSessionOptions): Promise<GameSession> {
+  const endpoint = await network.host(roomCode);
+  const listeners = createListeners<[]>();
+
+  let state: GameState = initializeNewGame(seed, rules);
+  let revision = 0;
+  let guestToken: string | null = null;
+  let guest: Connection | null = null;
+  let snapshot: SessionSnapshot = { view: getPlayerView(state, 1), status: 'waiting', lastRejection: null };
+
+  const update = (patch: Partial<SessionSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.emit();
+  };
+
+  const sendToGuest = (message: HostMessage) => guest?.send(message);
+  const syncGuest = () => sendToGuest({ kind: 'sync', revision, view: getPlayerView(state, 2) });
+
+  const apply = (action: GameAction) => {
+    const next = reduce(state, action);
+    if (next === state) return;
+    state = next;
+    revision++;
+    syncGuest();
+    update({ view: getPlayerView(state, 1), lastRejection: null });
+  };
+
+  const acceptGuest = (connection: Connection) => {
+    connection.onMessage(message => {
+      if (message.kind === 'hello') {
+        if (guestToken !== null && guestToken !== message.guestToken) {
+          connection.send({ kind: 'roomFull' });
+          connection.close();
+          return;
+        }
+        guestToken = message.guestToken;
+        if (guest && guest !== connection) guest.close();
+        guest = connection;
+        sendToGuest({ kind: 'welcome', seat: 2 });
+        syncGuest();
+        update({ status: 'connected' });
+        return;
+      }
+
+      if (message.kind !== 'action' || connection !== guest) return;
+      if (!isGameAction(message.action)) {
+        connection.send({ kind: 'rejected', action: message.action, reason: 'Malformed action' });
+        return;
+      }
+      const rejection = getSeatRejection(state, 2, message.action, false);
+      if (rejection) {
+        connection.send({ kind: 'rejected', action: message.action, reason: rejection });
+        return;
+      }
+      apply(message.action);
+    });
+
+    connection.onClose(() => {
+      if (connection !== guest) return;
+      guest = null;
+      update({ status: 'disconnected' });
+    });
+  };
+
+  endpoint.onConnection(acceptGuest);
+
+  return {
+    role: 'host',
+    seat: 1,
+    roomCode,
+    getSnapshot: () => snapshot,
+    subscribe: listeners.add,
+    dispatch(action) {
+      const rejection = getSeatRejection(state, 1, action, true);
+      if (rejection) {
+        update({ lastRejection: rejection });
+        return;
+      }
+      apply(action);
+    },
+    close() {
+      guest?.close();
+      endpoint.close();
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Online Multiplayer
+ */
+
+export type { GuestMessage, HostMessage, NetMessage } from './protocol';
+export type { Connection, HostEndpoint, Network } from './transport';
+export { createRoomCode, NetworkError, normalizeRoomCode } from './transport';
+export type { GameSession, SessionSnapshot, SessionStatus } from './session';
+export { getSeatRejection } from './session';
+export { hostSession } from './hostSession';
+export type { HostSessionOptions } from './hostSession';
+export { joinSession } from './guestSession';
+export type { GuestSessionOptions } from './guestSession';
+export { createLocalNetwork } from './localNetwork';
+export type { LocalNetwork } from './localNetwork';
+export { createPeerNetwork } from './peerNetwork';
@@ -0,0 +1,96 @@
+/**
+ * In-Process Local Network
+ *
+ * A stand-in for the PeerJS broker that connects host and guest sessions
+ * living in the same JS context. Messages are delivered asynchronously and
+ * cloned, like they would be over a real data channel.
+ */
+
+import type { NetMessage } from './protocol';
+import type { Connection, HostEndpoint, Network } from './transport';
+import { createListeners, NetworkError } from './transport';
+
+interface LocalRoom {
+  connectionListeners: ReturnType<typeof createListeners<[Connection]>>;
+  connections: Set<LocalConnection>;
+}
+
+interface LocalConnection extends Connection {
+  /** Drop the link without a clean close from either side (simulates a network failure). */
+  drop(): void;
+}
+
+function createConnectionPair(): [LocalConnection, LocalConnection] {
+  const messages = [createListeners<[NetMessage]>(), createListeners<[NetMessage]>()];
+  const closes = [createListeners<[]>(), createListeners<[]>()];
+  let open = true;
+
+  const shutdown = () => {
+    if (!open) return;
+    open = false;
+    queueMicrotask(() => {
+      closes[0].emit();
+      closes[1].emit();
+      messages.forEach(m => m.clear());
+      closes.forEach(c => c.clear());
+    });
+  };
+
+  const end = (self: 0 | 1): LocalConnection => {
+    const other = self === 0 ? 1 : 0;
+    return {
+      send(message) {
+        if (!open) return;
+        const copy = structuredClone(message);
+        // Queued before any close notification, so in-flight messages still arrive
+        queueMicrotask(() => messages[other].emit(copy));
+      },
+      onMessage: handler => messages[self].add(handler),
+      onClose: handler => closes[self].add(handler),
+      close: shutdown,
+      drop: shutdown,
+    };
+  };
+
+  return [end(0), end(1)];
+}
+
+export interface LocalNetwork extends Network {
+  /** Drop every open connection in a room, as if the guest lost connectivity. */
+  dropConnections(roomCode: string): void;
+}
+
+export function createLocalNetwork(): LocalNetwork {
+  const rooms = new Map<string, LocalRoom>();
+
+  return {
+    async host(roomCode) {
+      if (rooms.has(roomCode)) throw new NetworkError(`Room ${roomCode} is already open`);
+      const room: LocalRoom = { connectionListeners: createListeners<[Connection]>(), connections: new Set() };
+      rooms.set(roomCode, room);
+      const endpoint: HostEndpoint = {
+        onConnection: handler => room.connectionListeners.add(handler),
+        close() {
+          rooms.delete(roomCode);
+          room.connections.forEach(connection => connection.close());
+          room.connectionListeners.clear();
+        },
+      };
+      return endpoint;
+    },
+
+    async join(roomCode) {
+      const room = rooms.get(roomCode);
+      if (!room) throw new NetworkError(`Room ${roomCode} does not exist`);
+      const [hostSide, guestSide] = createConnectionPair();
+      room.connections.add(hostSide);
+      hostSide.onClose(() => room.connections.delete(hostSide));
+      room.connectionListeners.emit(hostSide);
+      return guestSide;
+    },
+
+    dropConnections(roomCode) {
+      rooms.get(roomCode)?.connections.forEach(connection => connection.drop());
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * PeerJS Network
+ *
+ * Rooms map to PeerJS ids on the public broker; the host owns the id for its
+ * room code and the guest opens a reliable data connection to it.
+ */
+
+import { Peer } from 'peerjs';
+import type { DataConnection } from 'peerjs';
+import { isNetMessage } from './protocol';
+import type { Connection, HostEndpoint, Network } from './transport';
+import { createListeners, NetworkError } from './transport';
+
+const PEER_ID_PREFIX = 'war-lanes-';
+
+function peerIdForRoom(roomCode: string): string {
+  return `${PEER_ID_PREFIX}${roomCode}`;
+}
+
+function wrapConnection(dataConnection: DataConnection, onClosed?: () => void): Connection {
+  const closes = createListeners<[]>();
+  let closed = false;
+  const markClosed = () => {
+    if (closed) return;
+    closed = true;
+    closes.emit();
+    onClosed?.();
+  };
+  dataConnection.on('close', markClosed);
+  dataConnection.on('error', markClosed);
+
+  return {
+    send(message) {
+      if (!closed && dataConnection.open) dataConnection.send(message);
+    },
+    onMessage(handler) {
+      const listener = (data: unknown) => { if (isNetMessage(data)) handler(data); };
+      dataConnection.on('data', listener);
+      return () => { dataConnection.off('data', listener); };
+    },
+    onClose: handler => closes.add(handler),
+    close() {
+      dataConnection.close();
+      markClosed();
+    },
+  };
+}
+
+function openPeer(id?: string): Promise<Peer> {
+  return new Promise((resolve, reject) => {
+    const peer = id ? new Peer(id) : new Peer();
+    peer.once('open', () => resolve(peer));
+    peer.once('error', error => {
+      peer.destroy();
+      reject(new NetworkError(error.type === 'unavailable-id' ? 'Room code is already in use' : error.message));
+    });
+  });
+}
+
+export function createPeerNetwork(): Network {
+  return {
+    async host(roomCode) {
+      const peer = await openPeer(peerIdForRoom(roomCode));
+      const connections = createListeners<[Connection]>();
+
+      // Keep the room reachable if the broker link drops; open data channels survive it
+      peer.on('disconnected', () => { if (!peer.destroyed) peer.reconnect(); });
+      peer.on('connection', dataConnection => {
+        dataConnection.on('open', () => connections.emit(wrapConnection(dataConnection)));
+      });
+
+      const endpoint: HostEndpoint = {
+        onConnection: handler => connections.add(handler),
+        close() {
+          connections.clear();
+          peer.destroy();
+        },
+      };
+      return endpoint;
+    },
+
+    async join(roomCode) {
+      const peer = await openPeer();
+      return new Promise<Connection>((resolve, reject) => {
+        const dataConnection = peer.connect(peerIdForRoom(roomCode), { reliable: true });
+        peer.once('error', error => {
+          peer.destroy();
+          reject(new NetworkError(error.type === 'peer-unavailable' ? `Room ${roomCode} does not exist` : error.message));
+        });
+        dataConnection.once('open', () => resolve(wrapConnection(dataConnection, () => peer.destroy())));
+      });
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Host/Guest Wire Protocol
+ *
+ * The host runs gameReducer and is the only source of truth. The guest sends
+ * GameActions and receives only its own PlayerView of the state.
+ */
+
+import type { GameAction } from '../game/reducer';
+import type { PlayerView } from '../game/view';
+
+export type GuestMessage =
+  | { kind: 'hello'; guestToken: string }
+  | { kind: 'action'; action: GameAction };
+
+export type HostMessage =
+  | { kind: 'welcome'; seat: 2 }
+  | { kind: 'roomFull' }
+  | { kind: 'sync'; revision: number; view: PlayerView }
+  | { kind: 'rejected'; action: GameAction; reason: string };
+
+export type NetMessage = GuestMessage | HostMessage;
+
+export function isNetMessage(value: unknown): value is NetMessage {
+  return typeof value === 'object' && value !== null && typeof (value as { kind?: unknown }).kind === 'string';
+}
@@ -0,0 +1,127 @@
+/**
+ * Host and Guest Session Tests
+ *
+ * Both ends run over the in-process local network, so these cover the same
+ * message flow as a PeerJS game without a broker.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GameAction } from '../game/reducer';
+import { hostSession } from './hostSession';
+import { joinSession } from './guestSession';
+import { createLocalNetwork } from './localNetwork';
+import type { HostMessage } from './protocol';
+import type { GameSession } from './session';
+
+const ROOM = 'TEST42';
+// Player 1 wins the war flip, so the host moves first in Main
+const SEED = 2;
+
+const open: GameSession[] = [];
+
+afterEach(() => {
+  open.splice(0).forEach(session => session.close());
+});
+
+async function startRoom(reconnectDelayMs = 1) {
+  const network = createLocalNetwork();
+  const host = await hostSession(network, { roomCode: ROOM, seed: SEED });
+  const guest = await joinSession(network, { roomCode: ROOM, guestToken: 'guest-a', reconnectDelayMs });
+  open.push(host, guest);
+  await vi.waitFor(() => expect(guest.getSnapshot().view).not.toBeNull());
+  return { network, host, guest };
+}
+
+// Suits, then the war flip, as the seats and the host would drive it
+async function reachMain(host: GameSession, guest: GameSession) {
+  host.dispatch({ type: 'SELECT_SUIT', player: 1, suit: 'clubs' });
+  await vi.waitFor(() => expect(guest.getSnapshot().view?.player1Suit).toBe('clubs'));
+  guest.dispatch({ type: 'SELECT_SUIT', player: 2, suit: 'diamonds' });
+  await vi.waitFor(() => expect(host.getSnapshot().view?.phase).toBe('InitialFlip'));
+  host.dispatch({ type: 'INITIAL_FLIP_STEP' });
+  host.dispatch({ type: 'CONTINUE_FROM_FLIP' });
+  await vi.waitFor(() => expect(guest.getSnapshot().view?.phase).toBe('Main'));
+}
+
+describe('online sessions', () => {
+  it('send each seat only its own hand', async () => {
+    const { host, guest } = await startRoom();
+    await reachMain(host, guest);
+
+    const hostView = host.getSnapshot().view!;
+    const guestView = guest.getSnapshot().view!;
+    expect(hostView.player1.hand).toHaveLength(hostView.player1.handCount);
+    expect(hostView.player2.hand).toBeNull();
+    expect(guestView.player2.hand).toHaveLength(guestView.player2.handCount);
+    expect(guestView.player1.hand).toBeNull();
+    expect(guestView).not.toHaveProperty('rng');
+    expect(guestView.events.some(event => event.type === 'GameStarted')).toBe(false);
+  });
+
+  it("reject a guest action for the host's seat", async () => {
+    const { host, guest } = await startRoom();
+    guest.dispatch({ type: 'SELECT_SUIT', player: 1, suit: 'spades' });
+
+    await vi.waitFor(() => expect(guest.getSnapshot().lastRejection).toBe('You can only act for your own seat'));
+    expect(host.getSnapshot().view?.player1Suit).toBeNull();
+  });
+
+  it('turn away a third peer with a different token', async () => {
+    const { network, guest } = await startRoom();
+    const intruder = await joinSession(network, { roomCode: ROOM, guestToken: 'guest-b', reconnectDelayMs: 1 });
+    open.push(intruder);
+
+    await vi.waitFor(() => expect(intruder.getSnapshot()).toMatchObject({ status: 'disconnected', lastRejection: 'Room is full' }));
+    expect(intruder.getSnapshot().view).toBeNull();
+    expect(guest.getSnapshot().status).toBe('connected');
+  });
+
+  it('resync a guest that reconnects after a drop', async () => {
+    // Slow enough to retry that the host can move while the guest is away
+    const { network, host, guest } = await startRoom(200);
+    await reachMain(host, guest);
+    const view = host.getSnapshot().view!;
+    expect(view.currentPlayer).toBe(1);
+
+    network.dropConnections(ROOM);
+    await vi.waitFor(() => expect(guest.getSnapshot().status).toBe('reconnecting'));
+    host.dispatch({ type: 'PLAY_CARD_TO_LANE', player: 1, cardId: view.player1.hand![0].id, laneId: 'left' });
+
+    await vi.waitFor(() => expect(guest.getSnapshot().view?.lanes[0].player1.cards).toHaveLength(1));
+    expect(guest.getSnapshot().status).toBe('connected');
+    expect(guest.getSnapshot().view?.events).toEqual(host.getSnapshot().view?.events);
+  });
+
+  it('play under the ranked rules, so plays cannot be undone', async () => {
+    const { host, guest } = await startRoom();
+    await reachMain(host, guest);
+    const view = host.getSnapshot().view!;
+    expect(view.rules.allowUndo).toBe(false);
+
+    host.dispatch({ type: 'PLAY_CARD_TO_LANE', player: 1, cardId: view.player1.hand![0].id, laneId: 'left' });
+    host.dispatch({ type: 'UNDO', player: 1 });
+    expect(host.getSnapshot().lastRejection).toBe('Undo is turned off for this game');
+    expect(host.getSnapshot().view?.lanes[0].player1.cards).toHaveLength(1);
+  });
+
+  it.each([
+    ['null', null],
+    ['an unknown type', { type: 'WIN_GAME', player: 2 }],
+    ['a turn with a null play', { type: 'COMMIT_TURN', player: 2, plays: [null] }],
+    ['a play to a lane that does not exist', { type: 'PLAY_CARD_TO_LANE', player: 2, cardId: 'x', laneId: 'top' }],
+  ])('reject %s as a malformed action', async (_label, action) => {
+    const network = createLocalNetwork();
+    const host = await hostSession(network, { roomCode: ROOM, seed: SEED });
+    open.push(host);
+    const connection = await network.join(ROOM);
+    const replies: HostMessage[] = [];
+    connection.onMessage(message => replies.push(message as HostMessage));
+    connection.send({ kind: 'hello', guestToken: 'guest-a' });
+    connection.send({ kind: 'action', action: action as GameAction });
+
+    await vi.waitFor(() => expect(replies.map(reply => reply.kind)).toContain('rejected'));
+    expect(replies.find(reply => reply.kind === 'rejected')).toMatchObject({ reason: 'Malformed action' });
+    expect(host.getSnapshot().view?.player1Suit).toBeNull();
+    connection.close();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Online Game Sessions
+ *
+ * Host and guest sessions expose the same surface so GameBoard can mirror
+ * either one: a snapshot to render, a dispatch for the local seat's actions,
+ * and a subscription for changes.
+ */
+
+import type { GameAction } from '../game/reducer';
+import type { CurrentPlayer, GameState } from '../game/types';
+import { describeRejection, validateAction } from '../game/validation';
+import type { PlayerView } from '../game/view';
+
+export type SessionStatus = 'waiting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface SessionSnapshot {
+  view: PlayerView | null; // Guests have no view until the first sync arrives
+  status: SessionStatus;
+  lastRejection: string | null;
+}
+
+export interface GameSession {
+  role: 'host' | 'guest';
+  seat: CurrentPlayer;
+  roomCode: string;
+  getSnapshot(): SessionSnapshot;
+  subscribe(listener: () => void): () => void;
+  dispatch(action: GameAction): void;
+  close(): void;
+}
+
+/**
+ * Why the host refuses an action from the given seat, or null if it may be applied.
+ * Player-driven actions must name the sending seat; everything else (flips,
+ * resolutions, restarts) is driven by the host. The game rules are checked last.
+ */
+export function getSeatRejection(state: GameState, seat: CurrentPlayer, action: GameAction, isHost: boolean): string | null {
+  if (action.type === 'SELECT_RANDOM_SUIT') return 'Suits are chosen by each player';
+  if (action.type === 'SELECT_SUIT' && action.agent) return 'Online seats are played by people';
+  if ('player' in action) {
+    if (action.player !== seat) return 'You can only act for your own seat';
+  } else if (!isHost) {
+    return 'Only the host can do that';
+  }
+
+  const result = validateAction(state, action);
+  return result.ok ? null : describeRejection(result.reason);
+}
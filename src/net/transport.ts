@@ -0,0 +1,69 @@
+/**
+ * Network Transport Abstractions
+ *
+ * Sessions only talk to these interfaces, so the same host/guest logic runs
+ * over PeerJS in the browser and over the in-process local network in dev and tests.
+ */
+
+import type { NetMessage } from './protocol';
+
+export interface Connection {
+  send(message: NetMessage): void;
+  onMessage(handler: (message: NetMessage) => void): () => void;
+  onClose(handler: () => void): () => void;
+  close(): void;
+}
+
+export interface HostEndpoint {
+  onConnection(handler: (connection: Connection) => void): () => void;
+  close(): void;
+}
+
+export interface Network {
+  /** Open a room under the given code and accept guest connections. */
+  host(roomCode: string): Promise<HostEndpoint>;
+  /** Connect to the room with the given code. */
+  join(roomCode: string): Promise<Connection>;
+}
+
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+export function createRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(input: string): string {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Tiny listener registry shared by transport implementations.
+ */
+export function createListeners<T extends unknown[]>() {
+  const listeners = new Set<(...args: T) => void>();
+  return {
+    add(listener: (...args: T) => void): () => void {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    emit(...args: T) {
+      for (const listener of [...listeners]) listener(...args);
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
+